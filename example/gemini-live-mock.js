@@ -0,0 +1,178 @@
+/**
+ * Mock Gemini Live-style session for local testing
+ *
+ * Speaks enough of the protocol to exercise the "gemini-live" protocol
+ * adapter without an API key:
+ * - Waits for the setup message and answers setupComplete
+ * - Energy-based activity detection on realtimeInput mediaChunks
+ *   (PCM16, 16 kHz), or activityStart/activityEnd when it's disabled
+ * - Replies by echoing what the user said as 24 kHz inlineData audio, sent
+ *   faster than real time like a real model, then turnComplete
+ * - Sends interrupted when the user talks over the reply
+ *
+ * Like the real API, messages are sent as binary frames holding JSON.
+ */
+
+const INPUT_RATE = 16000;
+const OUTPUT_RATE = 24000;
+const SPEECH_THRESHOLD = 0.02; // RMS
+const SILENCE_MS = 600;
+const CHUNK_MS = 100;
+
+function rms(pcm) {
+  const samples = new Int16Array(
+    pcm.buffer,
+    pcm.byteOffset,
+    pcm.byteLength / 2
+  );
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / 32768;
+    sum += s * s;
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+// Linear interpolation from the input to the output rate
+function resample(pcm) {
+  const input = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 2);
+  const ratio = INPUT_RATE / OUTPUT_RATE;
+  const output = new Int16Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const next = input[Math.min(index + 1, input.length - 1)];
+    output[i] = input[index] + (next - input[index]) * (pos - index);
+  }
+  return Buffer.from(output.buffer);
+}
+
+export function createGeminiLiveSession(ws) {
+  const send = (message) => {
+    try {
+      ws.send(Buffer.from(JSON.stringify(message)));
+    } catch {
+      // Connection may have closed
+    }
+  };
+
+  let ready = false;
+  let automaticActivity = true;
+  let speaking = false;
+  let silenceMs = 0;
+  let userAudio = [];
+  let reply = null; // interval timer
+
+  function stopReply() {
+    if (!reply) return false;
+    clearInterval(reply);
+    reply = null;
+    return true;
+  }
+
+  function startSpeech() {
+    speaking = true;
+    silenceMs = 0;
+    userAudio = [];
+    if (stopReply()) {
+      console.log("⚡ Reply interrupted");
+      send({ serverContent: { interrupted: true } });
+    }
+  }
+
+  function endSpeech() {
+    speaking = false;
+    const audio = resample(Buffer.concat(userAudio));
+    userAudio = [];
+    respond(audio);
+  }
+
+  function respond(audio) {
+    const bytesPerChunk = (OUTPUT_RATE * 2 * CHUNK_MS) / 1000;
+    let offset = 0;
+
+    // Twice real time, so audio is buffered on the client like with a real model
+    reply = setInterval(() => {
+      if (offset >= audio.byteLength) {
+        stopReply();
+        send({ serverContent: { generationComplete: true } });
+        send({ serverContent: { turnComplete: true } });
+        return;
+      }
+      const chunk = audio.subarray(offset, offset + bytesPerChunk);
+      offset += bytesPerChunk;
+      send({
+        serverContent: {
+          modelTurn: {
+            parts: [
+              {
+                inlineData: {
+                  mimeType: `audio/pcm;rate=${OUTPUT_RATE}`,
+                  data: chunk.toString("base64"),
+                },
+              },
+            ],
+          },
+        },
+      });
+    }, CHUNK_MS / 2);
+  }
+
+  function handleAudio(pcm) {
+    if (automaticActivity) {
+      const durationMs = (pcm.byteLength / 2 / INPUT_RATE) * 1000;
+      if (rms(pcm) > SPEECH_THRESHOLD) {
+        silenceMs = 0;
+        if (!speaking) startSpeech();
+      } else if (speaking) {
+        silenceMs += durationMs;
+      }
+    }
+
+    if (!speaking) return;
+    userAudio.push(pcm);
+
+    if (automaticActivity && silenceMs >= SILENCE_MS) {
+      endSpeech();
+    }
+  }
+
+  return {
+    onMessage(data) {
+      const message = JSON.parse(data.toString());
+
+      if (message.setup) {
+        ready = true;
+        automaticActivity =
+          !message.setup.realtimeInputConfig?.automaticActivityDetection
+            ?.disabled;
+        console.log("🤖 Live setup:", message.setup.model);
+        send({ setupComplete: {} });
+        return;
+      }
+
+      if (!ready) {
+        send({
+          error: { code: 400, message: "Setup must be the first message" },
+        });
+        return;
+      }
+
+      const input = message.realtimeInput;
+      if (input) {
+        if (input.activityStart) startSpeech();
+        for (const chunk of input.mediaChunks ?? []) {
+          handleAudio(Buffer.from(chunk.data, "base64"));
+        }
+        if (input.activityEnd && speaking) endSpeech();
+        return;
+      }
+
+      console.log("📨 Live message:", Object.keys(message).join(", "));
+    },
+
+    onClose() {
+      stopReply();
+    },
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Mock OpenAI Realtime-style session for local testing
+ *
+ * Speaks enough of the event protocol to exercise the "openai-realtime"
+ * protocol adapter without an API key:
+ * - Energy-based server VAD on input_audio_buffer.append (PCM16, 24 kHz)
+ * - Replies by echoing what the user said as response.audio.delta chunks,
+ *   sent faster than real time like a real model
+ * - Cancels the response on speech_started or response.cancel
+ * - Acknowledges conversation.item.truncate
+ */
+
+const SAMPLE_RATE = 24000;
+const SPEECH_THRESHOLD = 0.02; // RMS
+const SILENCE_MS = 600;
+const CHUNK_MS = 100;
+
+let eventCounter = 0;
+const newId = (prefix) => `${prefix}_${Date.now()}_${++eventCounter}`;
+
+function rms(pcm) {
+  const samples = new Int16Array(
+    pcm.buffer,
+    pcm.byteOffset,
+    pcm.byteLength / 2
+  );
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / 32768;
+    sum += s * s;
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+export function createRealtimeSession(ws) {
+  const send = (event) => {
+    try {
+      ws.send(JSON.stringify({ event_id: newId("event"), ...event }));
+    } catch {
+      // Connection may have closed
+    }
+  };
+
+  let speaking = false;
+  let silenceMs = 0;
+  let userAudio = [];
+  let response = null; // { id, itemId, timer }
+
+  function cancelResponse() {
+    if (!response) return;
+    clearInterval(response.timer);
+    console.log("⚡ Response cancelled:", response.id);
+    send({
+      type: "response.done",
+      response: { id: response.id, status: "cancelled" },
+    });
+    response = null;
+  }
+
+  function respond(audio) {
+    const id = newId("resp");
+    const itemId = newId("item");
+    const bytesPerChunk = (SAMPLE_RATE * 2 * CHUNK_MS) / 1000;
+    let offset = 0;
+
+    send({ type: "response.created", response: { id, status: "in_progress" } });
+    send({
+      type: "response.output_item.added",
+      response_id: id,
+      item: { id: itemId, type: "message", role: "assistant" },
+    });
+
+    // Twice real time, so audio is buffered on the client like with a real model
+    const timer = setInterval(() => {
+      if (offset >= audio.byteLength) {
+        clearInterval(timer);
+        send({
+          type: "response.audio.done",
+          response_id: id,
+          item_id: itemId,
+          output_index: 0,
+          content_index: 0,
+        });
+        send({ type: "response.done", response: { id, status: "completed" } });
+        response = null;
+        return;
+      }
+      const chunk = audio.subarray(offset, offset + bytesPerChunk);
+      offset += bytesPerChunk;
+      send({
+        type: "response.audio.delta",
+        response_id: id,
+        item_id: itemId,
+        output_index: 0,
+        content_index: 0,
+        delta: chunk.toString("base64"),
+      });
+    }, CHUNK_MS / 2);
+
+    response = { id, itemId, timer };
+  }
+
+  function handleAudio(pcm) {
+    const level = rms(pcm);
+    const durationMs = (pcm.byteLength / 2 / SAMPLE_RATE) * 1000;
+
+    if (level > SPEECH_THRESHOLD) {
+      silenceMs = 0;
+      if (!speaking) {
+        speaking = true;
+        userAudio = [];
+        send({
+          type: "input_audio_buffer.speech_started",
+          audio_start_ms: 0,
+          item_id: newId("item"),
+        });
+        // Server VAD interrupts the response being generated
+        cancelResponse();
+      }
+    } else if (speaking) {
+      silenceMs += durationMs;
+    }
+
+    if (!speaking) return;
+    userAudio.push(pcm);
+
+    if (silenceMs >= SILENCE_MS) {
+      speaking = false;
+      send({ type: "input_audio_buffer.speech_stopped", audio_end_ms: 0 });
+      send({ type: "input_audio_buffer.committed", item_id: newId("item") });
+      respond(Buffer.concat(userAudio));
+      userAudio = [];
+    }
+  }
+
+  send({
+    type: "session.created",
+    session: {
+      id: newId("sess"),
+      input_audio_format: "pcm16",
+      output_audio_format: "pcm16",
+    },
+  });
+
+  return {
+    onMessage(data) {
+      const event = JSON.parse(data.toString());
+
+      switch (event.type) {
+        case "input_audio_buffer.append":
+          handleAudio(Buffer.from(event.audio, "base64"));
+          break;
+
+        case "session.update":
+          send({ type: "session.updated", session: event.session });
+          break;
+
+        case "response.cancel":
+          if (!response) {
+            send({
+              type: "error",
+              error: {
+                type: "invalid_request_error",
+                code: "response_cancel_not_active",
+                message: "No active response",
+              },
+            });
+          }
+          cancelResponse();
+          break;
+
+        case "conversation.item.truncate":
+          console.log(
+            `✂️ Truncated ${event.item_id} at ${event.audio_end_ms} ms`
+          );
+          send({
+            type: "conversation.item.truncated",
+            item_id: event.item_id,
+            content_index: event.content_index,
+            audio_end_ms: event.audio_end_ms,
+          });
+          break;
+
+        default:
+          console.log("📨 Realtime event:", event.type);
+      }
+    },
+
+    onClose() {
+      if (response) clearInterval(response.timer);
+      response = null;
+    },
+  };
+}
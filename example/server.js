@@ -15,6 +15,9 @@ import { serve } from "@hono/node-server";
 import { serveStatic } from "@hono/node-server/serve-static";
 import { Hono } from "hono";
 import { createNodeWebSocket } from "@hono/node-ws";
+import { createRealtimeSession } from "./realtime-mock.js";
+import { createGeminiLiveSession } from "./gemini-live-mock.js";
+import { createTwilioSession } from "./twilio-mock.js";
 
 const PORT = 3000;
 
@@ -100,7 +103,10 @@ app.get(
 
           // Handle ping
           if (message.type === "ping") {
-            ws.send(JSON.stringify({ type: "pong", timestamp: Date.now() }));
+            // Echo the ping's timestamp so the client can time the round trip
+            ws.send(
+              JSON.stringify({ type: "pong", timestamp: message.timestamp })
+            );
             return;
           }
 
@@ -175,6 +181,93 @@ app.get(
   })
 );
 
+// Mock OpenAI Realtime-style endpoint (protocol: "openai-realtime")
+app.get(
+  "/realtime",
+  upgradeWebSocket(() => {
+    let session = null;
+
+    return {
+      onOpen(evt, ws) {
+        console.log("🔌 Realtime client connected");
+        session = createRealtimeSession(ws);
+      },
+
+      onMessage(evt) {
+        try {
+          session?.onMessage(evt.data);
+        } catch (error) {
+          console.error("❌ Error processing realtime event:", error.message);
+        }
+      },
+
+      onClose() {
+        console.log("🔌 Realtime client disconnected");
+        session?.onClose();
+        session = null;
+      },
+    };
+  })
+);
+
+// Mock Gemini Live-style endpoint (protocol: "gemini-live")
+app.get(
+  "/live",
+  upgradeWebSocket(() => {
+    let session = null;
+
+    return {
+      onOpen(evt, ws) {
+        console.log("🔌 Live client connected");
+        session = createGeminiLiveSession(ws);
+      },
+
+      onMessage(evt) {
+        try {
+          session?.onMessage(evt.data);
+        } catch (error) {
+          console.error("❌ Error processing live message:", error.message);
+        }
+      },
+
+      onClose() {
+        console.log("🔌 Live client disconnected");
+        session?.onClose();
+        session = null;
+      },
+    };
+  })
+);
+
+// Mock Twilio Media Streams backend (protocol: "twilio")
+app.get(
+  "/twilio",
+  upgradeWebSocket(() => {
+    let session = null;
+
+    return {
+      onOpen(evt, ws) {
+        console.log("🔌 Media stream client connected");
+        session = createTwilioSession(ws);
+      },
+
+      onMessage(evt) {
+        try {
+          session?.onMessage(evt.data);
+        } catch (error) {
+          console.error("❌ Error processing stream event:", error.message);
+        }
+      },
+
+      onClose() {
+        console.log("🔌 Media stream client disconnected");
+        session?.onClose();
+        session = null;
+      },
+    };
+  })
+);
+
 // Serve index.html from example folder for root path
 app.get("/", async (c) => {
   const fs = await import("node:fs/promises");
@@ -209,6 +302,9 @@ const server = serve(
 ║                                                    ║
 ║  🌐 Open in browser:  http://localhost:${PORT}         ║
 ║  🔌 WebSocket URL:    ws://localhost:${PORT}/audio     ║
+║  🤖 Realtime mock:    ws://localhost:${PORT}/realtime  ║
+║  🤖 Live mock:        ws://localhost:${PORT}/live      ║
+║  📞 Twilio mock:      ws://localhost:${PORT}/twilio    ║
 ║                                                    ║
 ╠════════════════════════════════════════════════════╣
 ║  Features:                                         ║
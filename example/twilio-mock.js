@@ -0,0 +1,140 @@
+/**
+ * Mock Twilio Media Streams backend for local testing
+ *
+ * Plays the backend side of a media stream to exercise the "twilio"
+ * protocol adapter:
+ * - Waits for start, then takes inbound mu-law media (8 kHz)
+ * - Energy-based VAD; replies by echoing what the caller said as outbound
+ *   media, sent faster than real time, followed by a mark
+ * - Sends clear when the caller talks over the reply
+ * - Logs marks coming back once the client has played the reply
+ */
+
+const SAMPLE_RATE = 8000;
+const SPEECH_THRESHOLD = 0.02; // RMS
+const SILENCE_MS = 600;
+const CHUNK_MS = 20;
+
+// G.711 mu-law byte to a sample in [-1, 1]
+function mulawToFloat(byte) {
+  const u = ~byte & 0xff;
+  const exponent = (u >> 4) & 0x07;
+  const magnitude = ((((u & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+  return (u & 0x80 ? -magnitude : magnitude) / 32768;
+}
+
+function rms(ulaw) {
+  let sum = 0;
+  for (let i = 0; i < ulaw.length; i++) {
+    const s = mulawToFloat(ulaw[i]);
+    sum += s * s;
+  }
+  return ulaw.length > 0 ? Math.sqrt(sum / ulaw.length) : 0;
+}
+
+export function createTwilioSession(ws) {
+  let streamSid = null;
+  let speaking = false;
+  let silenceMs = 0;
+  let callerAudio = [];
+  let reply = null; // interval timer
+  let replyCount = 0;
+
+  const send = (message) => {
+    try {
+      ws.send(JSON.stringify({ streamSid, ...message }));
+    } catch {
+      // Connection may have closed
+    }
+  };
+
+  function stopReply() {
+    if (!reply) return false;
+    clearInterval(reply);
+    reply = null;
+    return true;
+  }
+
+  function respond(audio) {
+    const bytesPerChunk = (SAMPLE_RATE * CHUNK_MS) / 1000;
+    const mark = `reply-${++replyCount}`;
+    let offset = 0;
+
+    // Four times real time, so audio is buffered on the client
+    reply = setInterval(() => {
+      if (offset >= audio.byteLength) {
+        stopReply();
+        send({ event: "mark", mark: { name: mark } });
+        return;
+      }
+      const chunk = audio.subarray(offset, offset + bytesPerChunk);
+      offset += bytesPerChunk;
+      send({ event: "media", media: { payload: chunk.toString("base64") } });
+    }, CHUNK_MS / 4);
+  }
+
+  function handleAudio(ulaw) {
+    const durationMs = (ulaw.byteLength / SAMPLE_RATE) * 1000;
+
+    if (rms(ulaw) > SPEECH_THRESHOLD) {
+      silenceMs = 0;
+      if (!speaking) {
+        speaking = true;
+        callerAudio = [];
+        if (stopReply()) {
+          console.log("⚡ Caller barged in, clearing");
+          send({ event: "clear" });
+        }
+      }
+    } else if (speaking) {
+      silenceMs += durationMs;
+    }
+
+    if (!speaking) return;
+    callerAudio.push(ulaw);
+
+    if (silenceMs >= SILENCE_MS) {
+      speaking = false;
+      respond(Buffer.concat(callerAudio));
+      callerAudio = [];
+    }
+  }
+
+  return {
+    onMessage(data) {
+      const message = JSON.parse(data.toString());
+
+      switch (message.event) {
+        case "connected":
+          break;
+
+        case "start":
+          streamSid = message.start.streamSid;
+          console.log("📞 Stream started:", streamSid);
+          break;
+
+        case "media":
+          if (message.media.track === "inbound") {
+            handleAudio(Buffer.from(message.media.payload, "base64"));
+          }
+          break;
+
+        case "mark":
+          console.log("🏁 Client played:", message.mark.name);
+          break;
+
+        case "stop":
+          console.log("📞 Stream stopped:", streamSid);
+          stopReply();
+          break;
+
+        default:
+          console.log("📨 Stream event:", message.event);
+      }
+    },
+
+    onClose() {
+      stopReply();
+    },
+  };
+}
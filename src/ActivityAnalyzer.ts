@@ -147,6 +147,23 @@ export class ActivityAnalyzer extends TypedEventEmitter<ActivityAnalyzerEvents>
     return this.analyze();
   }
 
+  /**
+   * Get the current RMS level (0-1) without updating peak or speaking state
+   */
+  getLevel(): number {
+    const data = this.getTimeDomainData();
+    if (!data) {
+      return 0;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      const sample = (data[i] - 128) / 128;
+      sum += sample * sample;
+    }
+    return Math.sqrt(sum / data.length);
+  }
+
   /**
    * Get the frequency data for custom visualization
    */
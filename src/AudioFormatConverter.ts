@@ -0,0 +1,260 @@
+import type { BitDepth, CaptureEncoding } from "./types";
+
+/**
+ * Utility to convert between audio formats
+ *
+ * Note: this class is also injected into the capture AudioWorklet via
+ * toString(), so it must stay self-contained (static methods refer to each
+ * other through `this`, not the class name).
+ */
+export class AudioFormatConverter {
+  /**
+   * Convert Float32Array to specified bit depth
+   */
+  static floatToPCM(input: Float32Array, bitDepth: BitDepth): ArrayBuffer {
+    switch (bitDepth) {
+      case 8:
+        return this.floatTo8Bit(input).buffer as ArrayBuffer;
+      case 16:
+        return this.floatTo16Bit(input).buffer as ArrayBuffer;
+      case 24:
+        return this.floatTo24Bit(input);
+      case 32:
+        return this.floatTo32Bit(input).buffer as ArrayBuffer;
+      default:
+        throw new Error(`Unsupported bit depth: ${bitDepth}`);
+    }
+  }
+
+  /**
+   * Encode captured samples in a capture encoding
+   * Always returns a standalone ArrayBuffer (safe to transfer)
+   */
+  static encode(input: Float32Array, encoding: CaptureEncoding): ArrayBuffer {
+    switch (encoding) {
+      case "pcm16":
+        return this.floatTo16Bit(input).buffer as ArrayBuffer;
+      case "mulaw":
+      case "alaw":
+        return this.floatToG711(input, encoding).buffer as ArrayBuffer;
+      case "float32":
+        return new Float32Array(input).buffer as ArrayBuffer;
+      default:
+        throw new Error(`Unsupported capture encoding: ${encoding}`);
+    }
+  }
+
+  /**
+   * Encode Float32Array to G.711 (one byte per sample)
+   */
+  static floatToG711(input: Float32Array, codec: "mulaw" | "alaw"): Uint8Array {
+    const output = new Uint8Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const s = Math.max(-1, Math.min(1, input[i]));
+      const pcm = Math.round(s < 0 ? s * 0x8000 : s * 0x7fff);
+      output[i] =
+        codec === "mulaw" ? this.linearToMulaw(pcm) : this.linearToAlaw(pcm);
+    }
+    return output;
+  }
+
+  /**
+   * Decode G.711 bytes to Float32Array
+   */
+  static g711ToFloat(input: Uint8Array, codec: "mulaw" | "alaw"): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const pcm =
+        codec === "mulaw"
+          ? this.mulawToLinear(input[i])
+          : this.alawToLinear(input[i]);
+      output[i] = pcm / 0x8000;
+    }
+    return output;
+  }
+
+  /**
+   * Encode a 16-bit linear sample as G.711 mu-law
+   */
+  static linearToMulaw(sample: number): number {
+    // Work in 14-bit magnitude as specified by G.711
+    let pcm = sample >> 2;
+    let mask: number;
+    if (pcm < 0) {
+      pcm = -pcm;
+      mask = 0x7f;
+    } else {
+      mask = 0xff;
+    }
+    pcm = Math.min(pcm, 8159) + 0x21;
+
+    const segment = this.findSegment(pcm, 0x3f);
+    if (segment >= 8) {
+      return 0x7f ^ mask;
+    }
+    return (((segment << 4) | ((pcm >> (segment + 1)) & 0x0f)) ^ mask) & 0xff;
+  }
+
+  /**
+   * Decode a G.711 mu-law byte to a 16-bit linear sample
+   */
+  static mulawToLinear(value: number): number {
+    const u = ~value & 0xff;
+    let t = ((u & 0x0f) << 3) + 0x84;
+    t <<= (u & 0x70) >> 4;
+    return u & 0x80 ? 0x84 - t : t - 0x84;
+  }
+
+  /**
+   * Encode a 16-bit linear sample as G.711 A-law
+   */
+  static linearToAlaw(sample: number): number {
+    // Work in 13-bit magnitude as specified by G.711
+    let pcm = sample >> 3;
+    let mask: number;
+    if (pcm >= 0) {
+      mask = 0xd5;
+    } else {
+      mask = 0x55;
+      pcm = -pcm - 1;
+    }
+
+    const segment = this.findSegment(pcm, 0x1f);
+    if (segment >= 8) {
+      return 0x7f ^ mask;
+    }
+    const mantissa = segment < 2 ? (pcm >> 1) & 0x0f : (pcm >> segment) & 0x0f;
+    return ((segment << 4) | mantissa) ^ mask;
+  }
+
+  /**
+   * Decode a G.711 A-law byte to a 16-bit linear sample
+   */
+  static alawToLinear(value: number): number {
+    const a = value ^ 0x55;
+    let t = (a & 0x0f) << 4;
+    const segment = (a & 0x70) >> 4;
+    if (segment === 0) {
+      t += 8;
+    } else {
+      t = (t + 0x108) << (segment - 1);
+    }
+    return a & 0x80 ? t : -t;
+  }
+
+  /**
+   * Find the G.711 segment for a magnitude, given the end of the first segment
+   * (each following segment doubles in size)
+   */
+  private static findSegment(value: number, firstSegmentEnd: number): number {
+    let end = firstSegmentEnd;
+    for (let segment = 0; segment < 8; segment++) {
+      if (value <= end) {
+        return segment;
+      }
+      end = (end << 1) | 1;
+    }
+    return 8;
+  }
+
+  /**
+   * Convert PCM data to Float32Array
+   */
+  static pcmToFloat(input: ArrayBuffer, bitDepth: BitDepth): Float32Array {
+    switch (bitDepth) {
+      case 8:
+        return this.int8ToFloat(new Int8Array(input));
+      case 16:
+        return this.int16ToFloat(new Int16Array(input));
+      case 24:
+        return this.int24ToFloat(input);
+      case 32:
+        return this.int32ToFloat(new Int32Array(input));
+      default:
+        throw new Error(`Unsupported bit depth: ${bitDepth}`);
+    }
+  }
+
+  private static floatTo8Bit(input: Float32Array): Int8Array {
+    const output = new Int8Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const s = Math.max(-1, Math.min(1, input[i]));
+      output[i] = s * 127;
+    }
+    return output;
+  }
+
+  private static floatTo16Bit(input: Float32Array): Int16Array {
+    const output = new Int16Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const s = Math.max(-1, Math.min(1, input[i]));
+      output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    return output;
+  }
+
+  private static floatTo24Bit(input: Float32Array): ArrayBuffer {
+    const output = new ArrayBuffer(input.length * 3);
+    const view = new DataView(output);
+    for (let i = 0; i < input.length; i++) {
+      const s = Math.max(-1, Math.min(1, input[i]));
+      const val = s < 0 ? s * 0x800000 : s * 0x7fffff;
+      const intVal = Math.floor(val);
+      view.setUint8(i * 3, intVal & 0xff);
+      view.setUint8(i * 3 + 1, (intVal >> 8) & 0xff);
+      view.setUint8(i * 3 + 2, (intVal >> 16) & 0xff);
+    }
+    return output;
+  }
+
+  private static floatTo32Bit(input: Float32Array): Int32Array {
+    const output = new Int32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const s = Math.max(-1, Math.min(1, input[i]));
+      output[i] = s < 0 ? s * 0x80000000 : s * 0x7fffffff;
+    }
+    return output;
+  }
+
+  private static int8ToFloat(input: Int8Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      output[i] = input[i] / 127;
+    }
+    return output;
+  }
+
+  private static int16ToFloat(input: Int16Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      output[i] = input[i] < 0 ? input[i] / 0x8000 : input[i] / 0x7fff;
+    }
+    return output;
+  }
+
+  private static int24ToFloat(input: ArrayBuffer): Float32Array {
+    const view = new DataView(input);
+    const numSamples = input.byteLength / 3;
+    const output = new Float32Array(numSamples);
+    for (let i = 0; i < numSamples; i++) {
+      let val =
+        view.getUint8(i * 3) |
+        (view.getUint8(i * 3 + 1) << 8) |
+        (view.getUint8(i * 3 + 2) << 16);
+      // Sign extend
+      if (val & 0x800000) {
+        val |= 0xff000000;
+      }
+      output[i] = val < 0 ? val / 0x800000 : val / 0x7fffff;
+    }
+    return output;
+  }
+
+  private static int32ToFloat(input: Int32Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      output[i] = input[i] < 0 ? input[i] / 0x80000000 : input[i] / 0x7fffffff;
+    }
+    return output;
+  }
+}
@@ -1,6 +1,22 @@
 import { TypedEventEmitter } from "./EventEmitter";
-import { AudioFormatConverter } from "./MicrophoneCapture";
-import type { PlaybackConfig, SampleRate, BitDepth } from "./types";
+import { AudioFormatConverter } from "./AudioFormatConverter";
+import { StreamingDecoder, isCompressedCodec } from "./StreamingDecoder";
+import { Resampler } from "./Resampler";
+import { TimeStretcher } from "./TimeStretcher";
+import { JitterBuffer } from "./JitterBuffer";
+import { WorkletPlaybackEngine } from "./WorkletPlaybackEngine";
+import { createAudioContext, concatBytes } from "./utils";
+import { isWav, parsePartialWavHeader, decodeWavSamples } from "./wav";
+import type { WavFormat, WavHeader } from "./wav";
+import type {
+  PlaybackConfig,
+  PlaybackEngine,
+  SampleRate,
+  BitDepth,
+  JitterBufferStats,
+  ResampleQuality,
+  PlaybackMarkInfo,
+} from "./types";
 
 interface AudioPlaybackEvents {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -12,13 +28,40 @@ interface AudioPlaybackEvents {
   level: (level: number) => void;
   "buffer-low": () => void;
   "buffer-empty": () => void;
-  "turn-interrupted": (turnId: string) => void;
+  "turn-interrupted": (turnId: string, playedMs: number) => void;
+  mark: (name: string, info: PlaybackMarkInfo) => void;
+  underrun: (stats: JitterBufferStats) => void;
+  "jitter-stats": (stats: JitterBufferStats) => void;
 }
 
 interface QueuedAudio {
   buffer: AudioBuffer;
   startTime: number;
   turnId?: string;
+  // Seconds of source audio per second played (time stretching)
+  rate: number;
+  // Seconds into the buffer to start from (the rest of a paused buffer)
+  offset?: number;
+  // Marks reached once this audio has played
+  marks?: PlaybackMark[];
+}
+
+interface PlaybackMark {
+  name: string;
+  turnId?: string;
+  resolve: (reached: boolean) => void;
+}
+
+interface WavStream {
+  // Header bytes received so far, until the whole header has arrived
+  header: Uint8Array | null;
+  format: WavFormat | null;
+  // Turn the stream belongs to (audio from another turn ends it)
+  turnId?: string;
+  // Bytes of sample data still to come (Infinity when the header doesn't say)
+  remaining: number;
+  // Start of a frame split across chunks
+  partial: Uint8Array;
 }
 
 /**
@@ -27,10 +70,16 @@ interface QueuedAudio {
  */
 export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
   private audioContext: AudioContext | null = null;
+  private sharedContext: AudioContext | null = null;
   private gainNode: GainNode | null = null;
   private analyzerNode: AnalyserNode | null = null;
   private audioElement: HTMLAudioElement | null = null;
   private mediaStreamDestination: MediaStreamAudioDestinationNode | null = null;
+  private decoder: StreamingDecoder | null = null;
+  private resamplers: Resampler[] = [];
+  private timeStretcher: TimeStretcher | null = null;
+  private workletEngine: WorkletPlaybackEngine | null = null;
+  private wavStream: WavStream | null = null;
 
   private audioQueue: QueuedAudio[] = [];
   private currentSource: AudioBufferSourceNode | null = null;
@@ -39,14 +88,40 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
   private nextPlayTime = 0;
   private config: Required<PlaybackConfig>;
 
+  // Fades (the gain node carries the volume, ducking and fade ramps)
+  private volume = 1.0;
+  private duckLevel = 1.0;
+  private fadeEndTime = 0;
+
   // For buffer management
   private bufferCheckInterval: number | null = null;
+  private bufferCheckCount = 0;
   private lowBufferThreshold = 0.5; // seconds
 
+  // Adaptive jitter buffer (null = fixed bufferAhead)
+  private jitterBuffer: JitterBuffer | null = null;
+  private underrunWindow = 1.0; // seconds of silence still counted as an underrun
+  private lastScheduledTurnId: string | null = null;
+  private lastPlayedBuffer: AudioBuffer | null = null;
+  private isConcealing = false;
+
   // Turn management
   private currentTurnId: string | null = null;
   private currentSourceTurnId: string | null = null;
 
+  // Played duration per turn, in seconds of source audio (most recent turns only)
+  private playedDurations = new Map<string, number>();
+  private maxTrackedTurns = 32;
+  private currentSourceStartTime = 0;
+  private currentSourceDuration = 0;
+  private currentSourceOffset = 0;
+  private currentSourceRate = 1;
+
+  // Marks reached when the playing chunk ends, and marks waiting for audio
+  // that is still being decoded
+  private currentSourceMarks: PlaybackMark[] = [];
+  private decodingMarks: PlaybackMark[] = [];
+
   constructor(config: PlaybackConfig = {}) {
     super();
     this.config = {
@@ -55,7 +130,19 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
       channels: config.channels ?? 1,
       deviceId: config.deviceId ?? "",
       bufferAhead: config.bufferAhead ?? 0.1,
+      codec: config.codec ?? "pcm",
+      resampleQuality: config.resampleQuality ?? "native",
+      jitterBuffer: config.jitterBuffer ?? false,
+      engine: config.engine ?? "buffer-source",
+      fadeMs: config.fadeMs ?? 10,
+      playbackRate: TimeStretcher.clampRate(config.playbackRate ?? 1),
     };
+
+    if (this.config.jitterBuffer) {
+      this.jitterBuffer = new JitterBuffer(
+        this.config.jitterBuffer === true ? {} : this.config.jitterBuffer
+      );
+    }
   }
 
   /**
@@ -73,16 +160,7 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
    * (assuming a user interaction has occurred by then).
    */
   async initialize(): Promise<void> {
-    // Create AudioContext (handle Safari prefix)
-    const AudioContextClass =
-      window.AudioContext ||
-      (window as unknown as { webkitAudioContext: typeof AudioContext })
-        .webkitAudioContext;
-    if (!AudioContextClass) {
-      throw new Error("Web Audio API not supported");
-    }
-
-    this.audioContext = new AudioContextClass();
+    this.audioContext = this.sharedContext ?? createAudioContext();
     // console.log("[AudioPlayback] AudioContext created, state:", this.audioContext.state, "sampleRate:", this.audioContext.sampleRate);
 
     // Try to resume if suspended - this will succeed if any user interaction
@@ -101,16 +179,7 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
     }
 
     // Listen for state changes to auto-play queued audio when context resumes
-    this.audioContext.addEventListener("statechange", () => {
-      if (
-        this.audioContext?.state === "running" &&
-        this.audioQueue.length > 0 &&
-        !this.isPlaying &&
-        !this.isPaused
-      ) {
-        this.playNext();
-      }
-    });
+    this.audioContext.addEventListener("statechange", this.handleStateChange);
 
     // Create gain node for volume control
     this.gainNode = this.audioContext.createGain();
@@ -131,10 +200,77 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
       this.analyzerNode.connect(this.audioContext.destination);
     }
 
+    if (this.config.engine === "worklet") {
+      await this.setupWorkletEngine();
+    }
+
     // Start buffer monitoring
     this.startBufferMonitoring();
   }
 
+  /**
+   * Use an existing AudioContext (e.g. one shared with microphone capture)
+   * Takes effect on the next initialize(). A shared context is never closed
+   * or suspended by playback; pass null to create one again.
+   */
+  setAudioContext(audioContext: AudioContext | null): void {
+    this.sharedContext = audioContext;
+  }
+
+  /**
+   * Get the playback engine in use (after any fallback)
+   */
+  getEngine(): PlaybackEngine {
+    return this.workletEngine ? "worklet" : "buffer-source";
+  }
+
+  private async setupWorkletEngine(): Promise<void> {
+    if (!this.audioContext || !this.gainNode) return;
+
+    if (!WorkletPlaybackEngine.isSupported()) {
+      console.warn(
+        "AudioWorklet not supported, falling back to AudioBufferSourceNode playback"
+      );
+      return;
+    }
+
+    const engine = new WorkletPlaybackEngine({
+      channels: this.config.channels,
+      startDelay: this.config.bufferAhead,
+    });
+    try {
+      await engine.initialize(this.audioContext, this.gainNode);
+    } catch {
+      console.warn(
+        "AudioWorklet playback setup failed, falling back to AudioBufferSourceNode playback"
+      );
+      engine.dispose();
+      return;
+    }
+
+    engine.on("start", () => {
+      if (!this.isPlaying) {
+        this.isPlaying = true;
+        this.emit("start");
+      }
+    });
+    engine.on("ended", () => {
+      // The resamplers and time stretcher hold back the end of the stream
+      // until more audio arrives
+      const tail = this.drainStream();
+      if (tail) {
+        this.scheduleBuffer(tail, this.lastScheduledTurnId ?? undefined);
+        return;
+      }
+      if (this.isPlaying) {
+        this.isPlaying = false;
+        this.emit("ended");
+        this.emit("buffer-empty");
+      }
+    });
+    this.workletEngine = engine;
+  }
+
   /**
    * Check if the AudioContext is ready to play audio
    */
@@ -243,6 +379,12 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
   dispose(): void {
     this.stop();
     this.stopBufferMonitoring();
+    this.closeDecoder();
+
+    if (this.workletEngine) {
+      this.workletEngine.dispose();
+      this.workletEngine = null;
+    }
 
     if (this.audioElement) {
       this.audioElement.pause();
@@ -265,8 +407,17 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
       this.gainNode = null;
     }
 
-    if (this.audioContext && this.audioContext.state !== "closed") {
-      this.audioContext.close().catch(() => {});
+    if (this.audioContext) {
+      this.audioContext.removeEventListener(
+        "statechange",
+        this.handleStateChange
+      );
+      if (
+        this.audioContext !== this.sharedContext &&
+        this.audioContext.state !== "closed"
+      ) {
+        this.audioContext.close().catch(() => {});
+      }
     }
     this.audioContext = null;
 
@@ -276,7 +427,12 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
 
   /**
    * Queue audio data for playback
-   * @param data - PCM audio data (raw bytes)
+   * Compressed codecs are decoded incrementally; chunks need not align with packet boundaries.
+   * A chunk starting with a WAV header is played in the header's format, as
+   * are the headerless chunks that follow it until its data length is reached
+   * (or, for a streamed WAV of unknown length, until stop, interrupt or audio
+   * from another turn). A header may be split across chunks.
+   * @param data - Audio data in the configured codec (raw bytes)
    * @param turnId - Optional turn ID to associate with this audio
    */
   async queueAudio(data: ArrayBuffer, turnId?: string): Promise<void> {
@@ -310,26 +466,25 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
       }
     }
 
-    // Convert PCM to AudioBuffer
-    const audioBuffer = this.createAudioBuffer(data);
-
-    // Queue the buffer
-    const currentTime = this.audioContext.currentTime;
-    const startTime = Math.max(
-      this.nextPlayTime,
-      currentTime + this.config.bufferAhead
-    );
+    // WAV carries its own format, for the rest of its turn
+    if (this.wavStream && this.wavStream.turnId !== turnId) {
+      this.wavStream = null;
+    }
+    if (this.wavStream || isWav(data)) {
+      this.queueWav(data, turnId);
+      return;
+    }
 
-    this.audioQueue.push({ buffer: audioBuffer, startTime, turnId });
-    this.nextPlayTime = startTime + audioBuffer.duration;
+    // Compressed audio is scheduled once decoded
+    if (isCompressedCodec(this.config.codec)) {
+      this.getDecoder().decode(data, turnId);
+      return;
+    }
 
-    // Start playback if not already playing and context is running
-    if (
-      !this.isPlaying &&
-      !this.isPaused &&
-      this.audioContext.state === "running"
-    ) {
-      this.playNext();
+    // Convert PCM to AudioBuffer
+    const audioBuffer = this.createAudioBuffer(data);
+    if (audioBuffer) {
+      this.scheduleBuffer(audioBuffer, turnId);
     }
   }
 
@@ -361,43 +516,9 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
 
     // Convert PCM16 to Float32 and create AudioBuffer
     const floatData = Float32Array.from(new Int16Array(data), (x) => x / 32768);
-    const numSamples = floatData.length / this.config.channels;
-    const audioBuffer = this.audioContext.createBuffer(
-      this.config.channels,
-      numSamples,
-      this.config.sampleRate
-    );
-
-    // Copy data to buffer channels
-    if (this.config.channels === 1) {
-      audioBuffer.getChannelData(0).set(floatData);
-    } else {
-      // Deinterleave stereo
-      const left = audioBuffer.getChannelData(0);
-      const right = audioBuffer.getChannelData(1);
-      for (let i = 0; i < numSamples; i++) {
-        left[i] = floatData[i * 2];
-        right[i] = floatData[i * 2 + 1];
-      }
-    }
-
-    // Queue the buffer
-    const currentTime = this.audioContext.currentTime;
-    const startTime = Math.max(
-      this.nextPlayTime,
-      currentTime + this.config.bufferAhead
-    );
-
-    this.audioQueue.push({ buffer: audioBuffer, startTime, turnId });
-    this.nextPlayTime = startTime + audioBuffer.duration;
-
-    // Start playback if not already playing and context is running
-    if (
-      !this.isPlaying &&
-      !this.isPaused &&
-      this.audioContext.state === "running"
-    ) {
-      this.playNext();
+    const audioBuffer = this.floatToAudioBuffer(floatData);
+    if (audioBuffer) {
+      this.scheduleBuffer(audioBuffer, turnId);
     }
   }
 
@@ -423,13 +544,29 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
       await this.audioContext.resume();
     }
 
+    if (this.workletEngine || this.isTimeStretching()) {
+      // The ring buffer plays at the context rate; stretching works on samples
+      const channels: Float32Array[] = [];
+      for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+        channels.push(audioBuffer.getChannelData(ch));
+      }
+      const converted = this.channelsToAudioBuffer(
+        channels,
+        audioBuffer.sampleRate
+      );
+      if (converted) {
+        this.scheduleBuffer(converted, turnId);
+      }
+      return;
+    }
+
     const currentTime = this.audioContext.currentTime;
     const startTime = Math.max(
       this.nextPlayTime,
       currentTime + this.config.bufferAhead
     );
 
-    this.audioQueue.push({ buffer: audioBuffer, startTime, turnId });
+    this.audioQueue.push({ buffer: audioBuffer, startTime, turnId, rate: 1 });
     this.nextPlayTime = startTime + audioBuffer.duration;
 
     if (!this.isPlaying && !this.isPaused) {
@@ -437,25 +574,52 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
     }
   }
 
+  /**
+   * Queue a named mark after the audio queued so far
+   * A "mark" event follows once the AudioContext has played up to it (right
+   * away when nothing is queued). If the audio before it is discarded
+   * (interruptTurn, stop, clearTurnBuffer) or fails to decode, the mark is
+   * reported as cancelled instead.
+   * @param name - Mark name, reported back in the event
+   * @param turnId - Optional turn ID; a mark for a turn other than the
+   *   current one is cancelled, as its audio would be ignored
+   * @returns Resolves to true when the mark is reached, false when cancelled
+   */
+  queueMark(name: string, turnId?: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const mark: PlaybackMark = { name, turnId, resolve };
+
+      if (turnId && this.currentTurnId && turnId !== this.currentTurnId) {
+        this.settleMark(mark, false);
+      } else if (
+        this.decodingMarks.length > 0 ||
+        this.decoder?.hasPendingOutput()
+      ) {
+        // Wait until the audio queued before it has been decoded
+        this.decodingMarks.push(mark);
+      } else {
+        this.placeMark(mark);
+      }
+    });
+  }
+
   /**
    * Stop playback and clear queue
    */
   stop(): void {
-    if (this.currentSource) {
-      try {
-        this.currentSource.stop();
-      } catch {
-        // Ignore if already stopped
-      }
-      this.currentSource.disconnect();
-      this.currentSource = null;
-    }
+    const marks = this.takeMarks();
+    this.settleCurrentSource();
+    this.fadeOutPlayback();
 
     this.audioQueue = [];
+    this.decoder?.reset();
+    this.resetStreamState();
     this.isPlaying = false;
     this.isPaused = false;
     this.nextPlayTime = 0;
     this.currentSourceTurnId = null;
+    this.lastPlayedBuffer = null;
+    this.cancelMarks(marks);
     this.emit("stop");
   }
 
@@ -467,6 +631,9 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
    */
   setCurrentTurn(turnId: string | null): void {
     this.currentTurnId = turnId;
+    if (this.wavStream && this.wavStream.turnId !== (turnId ?? undefined)) {
+      this.wavStream = null;
+    }
   }
 
   /**
@@ -483,24 +650,21 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
    */
   interruptTurn(newTurnId?: string): string | null {
     const interruptedTurnId = this.currentTurnId;
+    const marks = this.takeMarks();
 
-    // Stop current playback
-    if (this.currentSource) {
-      try {
-        this.currentSource.stop();
-      } catch {
-        // Ignore if already stopped
-      }
-      this.currentSource.disconnect();
-      this.currentSource = null;
-    }
+    // Stop current playback, counting only what was actually heard
+    this.settleCurrentSource();
+    this.fadeOutPlayback();
 
-    // Clear the queue
+    // Clear the queue and any audio still being decoded
     this.audioQueue = [];
+    this.decoder?.reset();
+    this.resetStreamState();
     this.isPlaying = false;
     this.isPaused = false;
     this.nextPlayTime = 0;
     this.currentSourceTurnId = null;
+    this.lastPlayedBuffer = null;
 
     // Set new turn if provided
     if (newTurnId !== undefined) {
@@ -508,8 +672,13 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
     }
 
     // Emit events
+    this.cancelMarks(marks);
     if (interruptedTurnId) {
-      this.emit("turn-interrupted", interruptedTurnId);
+      this.emit(
+        "turn-interrupted",
+        interruptedTurnId,
+        this.getPlayedDuration(interruptedTurnId)
+      );
     }
     this.emit("stop");
 
@@ -523,25 +692,42 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
    */
   clearTurnBuffer(turnId?: string): void {
     if (turnId === undefined) {
-      // Clear all queued audio
+      // Clear all queued audio (the worklet ring can't keep the playing chunk)
+      const marks = [
+        ...this.audioQueue.flatMap((item) => item.marks ?? []),
+        ...this.decodingMarks,
+      ];
+      this.decodingMarks = [];
+      this.workletEngine?.clear();
       this.audioQueue = [];
+      this.decoder?.reset();
+      this.resetStreamState();
       this.nextPlayTime = this.audioContext?.currentTime ?? 0;
+      this.cancelMarks(marks);
     } else {
       // Clear only audio from specific turn
+      this.workletEngine?.clearTurn(turnId);
+      const removed = this.audioQueue.filter((item) => item.turnId === turnId);
       this.audioQueue = this.audioQueue.filter(
         (item) => item.turnId !== turnId
       );
+      this.cancelMarks(removed.flatMap((item) => item.marks ?? []));
 
       // Recalculate next play time
       if (this.audioQueue.length > 0) {
         const lastItem = this.audioQueue[this.audioQueue.length - 1];
-        this.nextPlayTime = lastItem.startTime + lastItem.buffer.duration;
+        this.nextPlayTime =
+          lastItem.startTime + this.getQueuedDuration(lastItem);
       } else {
         this.nextPlayTime = this.audioContext?.currentTime ?? 0;
       }
 
       // Stop current source if it's from the cleared turn
       if (this.currentSourceTurnId === turnId && this.currentSource) {
+        const marks = this.currentSourceMarks;
+        this.currentSourceMarks = [];
+        this.cancelMarks(marks);
+        this.settleCurrentSource();
         try {
           this.currentSource.stop();
         } catch {
@@ -570,31 +756,129 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
   }
 
   /**
-   * Get buffered duration for a specific turn
+   * Check if a turn has audio playing or waiting to play
+   */
+  hasAudioForTurn(turnId: string): boolean {
+    if (this.currentSource && this.currentSourceTurnId === turnId) {
+      return true;
+    }
+    return this.getBufferedDurationForTurn(turnId) > 0;
+  }
+
+  /**
+   * Get buffered duration for a specific turn, in seconds
+   * Includes the part of the playing chunk that hasn't been heard yet.
    */
   getBufferedDurationForTurn(turnId: string): number {
-    return this.audioQueue
+    if (this.workletEngine) {
+      return this.workletEngine.getBufferedDurationForTurn(turnId);
+    }
+    let buffered = this.audioQueue
       .filter((item) => item.turnId === turnId)
-      .reduce((sum, item) => sum + item.buffer.duration, 0);
+      .reduce((sum, item) => sum + this.getQueuedDuration(item), 0);
+    if (this.currentSource && this.currentSourceTurnId === turnId) {
+      buffered += this.currentSourceDuration - this.getCurrentSourceElapsed();
+    }
+    return buffered;
+  }
+
+  /**
+   * Get how much audio of a turn has actually been played, in milliseconds
+   * Based on the AudioContext time of scheduled sources, so queued but
+   * unplayed audio and time spent paused are not counted. Reported in source
+   * time: at playbackRate 2, one second of playback counts as 2000 ms.
+   */
+  getPlayedDuration(turnId: string): number {
+    if (this.workletEngine) {
+      return Math.round(this.workletEngine.getPlayedDuration(turnId) * 1000);
+    }
+
+    let played = this.playedDurations.get(turnId) ?? 0;
+    if (this.currentSource && this.currentSourceTurnId === turnId) {
+      played += this.getCurrentSourceElapsed() * this.currentSourceRate;
+    }
+    return Math.round(played * 1000);
   }
 
   /**
    * Pause playback
+   * Fades out and stops in the audio graph, keeping unheard audio queued.
+   * The AudioContext keeps running, so a shared context (e.g. microphone
+   * capture) is unaffected.
    */
   pause(): void {
-    if (this.audioContext && this.isPlaying) {
-      this.audioContext.suspend();
-      this.isPaused = true;
+    if (!this.audioContext || !this.isPlaying || this.isPaused) return;
+
+    this.isPaused = true;
+    const fade = this.config.fadeMs / 1000;
+    this.rampGain(0, fade);
+    this.fadeEndTime = this.audioContext.currentTime + fade;
+
+    if (this.workletEngine) {
+      this.workletEngine.pause(fade);
+      return;
+    }
+
+    const source = this.currentSource;
+    if (!source) return;
+
+    // Re-queue the rest of the playing buffer (concealment is just dropped)
+    const buffer = this.lastPlayedBuffer;
+    const offset = this.currentSourceOffset + this.getCurrentSourceElapsed();
+    const marks = this.currentSourceMarks;
+    this.currentSourceMarks = [];
+    if (buffer && !this.isConcealing && offset < buffer.duration) {
+      this.audioQueue.unshift({
+        buffer,
+        startTime: 0,
+        turnId: this.currentSourceTurnId ?? undefined,
+        rate: this.currentSourceRate,
+        offset,
+        marks,
+      });
+    } else {
+      this.reachMarks(marks);
+    }
+
+    this.settleCurrentSource();
+    this.currentSource = null;
+    source.onended = () => source.disconnect();
+    try {
+      source.stop(this.fadeEndTime);
+    } catch {
+      // Ignore if already stopped
+      source.disconnect();
     }
   }
 
   /**
    * Resume playback
+   * Fades back in where playback was paused.
    */
   async resume(): Promise<void> {
-    if (this.audioContext && this.isPaused) {
+    if (!this.audioContext || !this.isPaused) return;
+
+    if (this.audioContext.state === "suspended") {
       await this.audioContext.resume();
-      this.isPaused = false;
+    }
+    this.isPaused = false;
+    this.rampGain(this.getOutputGain());
+
+    if (this.workletEngine) {
+      this.workletEngine.resume();
+      return;
+    }
+
+    // Lay the queue out again from now, after the pause fade
+    let time = Math.max(this.audioContext.currentTime, this.fadeEndTime);
+    for (const item of this.audioQueue) {
+      item.startTime = time;
+      time += this.getQueuedDuration(item);
+    }
+    this.nextPlayTime = time;
+
+    if (this.isPlaying && !this.currentSource) {
+      this.playNext();
     }
   }
 
@@ -602,16 +886,48 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
    * Set volume (0-1)
    */
   setVolume(volume: number): void {
-    if (this.gainNode) {
-      this.gainNode.gain.value = Math.max(0, Math.min(1, volume));
-    }
+    this.volume = Math.max(0, Math.min(1, volume));
+    this.updateGain(0);
   }
 
   /**
    * Get current volume
    */
   getVolume(): number {
-    return this.gainNode?.gain.value ?? 1;
+    return this.volume;
+  }
+
+  /**
+   * Temporarily scale the output below the set volume (e.g. while the user talks)
+   * @param level - Gain multiplier (0-1), 1 to restore
+   * @param rampMs - Time to reach the new level
+   */
+  setDuckLevel(level: number, rampMs = 0): void {
+    this.duckLevel = Math.max(0, Math.min(1, level));
+    this.updateGain(rampMs / 1000);
+  }
+
+  /**
+   * Get the current duck level (1 when not ducked)
+   */
+  getDuckLevel(): number {
+    return this.duckLevel;
+  }
+
+  /**
+   * Set the playback speed with pitch-preserving time stretching (0.5-2)
+   * Applies to audio queued from now on; already scheduled audio keeps its speed.
+   */
+  setPlaybackRate(rate: number): void {
+    this.config.playbackRate = TimeStretcher.clampRate(rate);
+    this.timeStretcher?.setRate(this.config.playbackRate);
+  }
+
+  /**
+   * Get the playback speed
+   */
+  getPlaybackRate(): number {
+    return this.config.playbackRate;
   }
 
   /**
@@ -621,11 +937,28 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
     return this.isPlaying && !this.isPaused;
   }
 
+  /**
+   * Get adaptive jitter buffer statistics (null when the jitter buffer is disabled)
+   */
+  getJitterStats(): JitterBufferStats | null {
+    if (!this.jitterBuffer) {
+      return null;
+    }
+    const currentTime = this.audioContext?.currentTime ?? 0;
+    return this.jitterBuffer.getStats(this.nextPlayTime - currentTime);
+  }
+
   /**
    * Get buffered audio duration in seconds
    */
   getBufferedDuration(): number {
-    return this.audioQueue.reduce((sum, item) => sum + item.buffer.duration, 0);
+    if (this.workletEngine) {
+      return this.workletEngine.getBufferedDuration();
+    }
+    return this.audioQueue.reduce(
+      (sum, item) => sum + this.getQueuedDuration(item),
+      0
+    );
   }
 
   /**
@@ -677,13 +1010,17 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
    */
   updateFormat(
     config: Partial<
-      Pick<PlaybackConfig, "sampleRate" | "bitDepth" | "channels">
+      Pick<PlaybackConfig, "sampleRate" | "bitDepth" | "channels" | "codec">
     >
   ): void {
     if (config.sampleRate !== undefined)
       this.config.sampleRate = config.sampleRate;
     if (config.bitDepth !== undefined) this.config.bitDepth = config.bitDepth;
     if (config.channels !== undefined) this.config.channels = config.channels;
+    if (config.codec !== undefined && config.codec !== this.config.codec) {
+      this.config.codec = config.codec;
+      this.closeDecoder();
+    }
   }
 
   private setupAudioElementOutput(): void {
@@ -726,80 +1063,570 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
     }
   }
 
-  private createAudioBuffer(data: ArrayBuffer): AudioBuffer {
-    if (!this.audioContext) {
-      throw new Error("AudioContext not initialized");
+  /**
+   * Schedule a buffer after everything already queued (gapless)
+   */
+  private scheduleBuffer(audioBuffer: AudioBuffer, turnId?: string): void {
+    if (!this.audioContext) return;
+
+    if (this.workletEngine) {
+      const channels: Float32Array[] = [];
+      for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+        channels.push(audioBuffer.getChannelData(ch));
+      }
+      this.workletEngine.write(channels, turnId, this.config.playbackRate);
+      this.lastScheduledTurnId = turnId ?? null;
+      return;
+    }
+
+    const currentTime = this.audioContext.currentTime;
+    const startTime = this.jitterBuffer
+      ? this.getAdaptiveStartTime(audioBuffer, turnId, currentTime)
+      : Math.max(this.nextPlayTime, currentTime + this.config.bufferAhead);
+
+    this.audioQueue.push({
+      buffer: audioBuffer,
+      startTime,
+      turnId,
+      rate: this.config.playbackRate,
+    });
+    this.nextPlayTime = startTime + audioBuffer.duration;
+    this.lastScheduledTurnId = turnId ?? null;
+
+    // Start playback if not already playing and context is running
+    if (
+      !this.isPlaying &&
+      !this.isPaused &&
+      this.audioContext.state === "running"
+    ) {
+      this.playNext();
+    }
+  }
+
+  /**
+   * Start time for a chunk in adaptive jitter buffer mode
+   * Chunks continue gaplessly while audio is buffered; when the buffer has run
+   * dry, playback restarts with the current target depth.
+   */
+  private getAdaptiveStartTime(
+    audioBuffer: AudioBuffer,
+    turnId: string | undefined,
+    currentTime: number
+  ): number {
+    const jitterBuffer = this.jitterBuffer!;
+    const arrivalTime = performance.now() / 1000;
+    // Arrivals keep pace with source time, not stretched playback time
+    const mediaDuration = audioBuffer.duration * this.config.playbackRate;
+
+    if (this.nextPlayTime > currentTime) {
+      jitterBuffer.update(arrivalTime, mediaDuration);
+      return this.nextPlayTime;
+    }
+
+    // Ran dry: an underrun if the same stream resumes shortly after
+    const gap = currentTime - this.nextPlayTime;
+    const isUnderrun =
+      this.nextPlayTime > 0 &&
+      gap < this.underrunWindow &&
+      (turnId ?? null) === this.lastScheduledTurnId;
+
+    if (isUnderrun) {
+      jitterBuffer.update(arrivalTime, mediaDuration);
+      jitterBuffer.recordUnderrun(gap);
+      this.applyFadeIn(audioBuffer, jitterBuffer.getConfig().fadeMs / 1000);
+      this.emit("underrun", jitterBuffer.getStats(0));
+    } else {
+      jitterBuffer.startStream();
+      jitterBuffer.update(arrivalTime, mediaDuration);
     }
 
-    // Convert PCM to Float32
-    const floatData = AudioFormatConverter.pcmToFloat(
-      data,
-      this.config.bitDepth
+    return currentTime + jitterBuffer.getTargetDelay();
+  }
+
+  /**
+   * Ramp the start of a buffer up from silence (avoids a click on resume)
+   */
+  private applyFadeIn(audioBuffer: AudioBuffer, duration: number): void {
+    const length = Math.min(
+      audioBuffer.length,
+      Math.round(duration * audioBuffer.sampleRate)
     );
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+      const samples = audioBuffer.getChannelData(ch);
+      for (let i = 0; i < length; i++) {
+        samples[i] *= i / length;
+      }
+    }
+  }
 
-    // Create AudioBuffer
-    const numSamples = floatData.length / this.config.channels;
-    const audioBuffer = this.audioContext.createBuffer(
-      this.config.channels,
-      numSamples,
-      this.config.sampleRate
+  /**
+   * Play the last played audio reversed and fading out when the queue runs dry
+   * Reversing keeps the waveform continuous at the junction, so the dropout
+   * decays smoothly instead of clicking.
+   * @returns true if concealment is playing
+   */
+  private concealUnderrun(): boolean {
+    if (
+      !this.jitterBuffer ||
+      this.isConcealing ||
+      !this.lastPlayedBuffer ||
+      !this.audioContext ||
+      !this.gainNode
+    ) {
+      return false;
+    }
+
+    const tail = this.lastPlayedBuffer;
+    const length = Math.min(
+      tail.length,
+      Math.round(
+        (this.jitterBuffer.getConfig().concealmentMs / 1000) * tail.sampleRate
+      )
     );
+    if (length === 0) {
+      return false;
+    }
 
-    // Copy data to buffer channels
-    if (this.config.channels === 1) {
-      audioBuffer.getChannelData(0).set(floatData);
-    } else {
-      // Deinterleave stereo
-      const left = audioBuffer.getChannelData(0);
-      const right = audioBuffer.getChannelData(1);
+    const concealment = this.audioContext.createBuffer(
+      tail.numberOfChannels,
+      length,
+      tail.sampleRate
+    );
+    for (let ch = 0; ch < tail.numberOfChannels; ch++) {
+      const input = tail.getChannelData(ch);
+      const output = concealment.getChannelData(ch);
+      for (let i = 0; i < length; i++) {
+        output[i] = input[tail.length - 1 - i] * (1 - i / length);
+      }
+    }
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = concealment;
+    source.connect(this.gainNode);
+    source.onended = () => {
+      if (this.currentSource === source) {
+        this.playNext();
+      }
+    };
+    source.start(Math.max(this.nextPlayTime, this.audioContext.currentTime));
+
+    // Not part of any turn, so it never counts towards played duration
+    this.currentSource = source;
+    this.currentSourceTurnId = null;
+    this.isConcealing = true;
+    this.jitterBuffer.recordConcealment(concealment.duration);
+    return true;
+  }
+
+  private getDecoder(): StreamingDecoder {
+    if (!isCompressedCodec(this.config.codec)) {
+      throw new Error(`${this.config.codec} audio does not need a decoder`);
+    }
+
+    if (!this.decoder) {
+      this.decoder = new StreamingDecoder(this.config.codec, {
+        sampleRate: this.config.sampleRate,
+        channels: this.config.channels,
+      });
+      this.decoder.on("data", (channels, sampleRate, turnId) =>
+        this.handleDecodedAudio(channels, sampleRate, turnId)
+      );
+      this.decoder.on("error", (error) => {
+        // The audio queued before waiting marks won't all be decoded
+        const marks = this.decodingMarks;
+        this.decodingMarks = [];
+        this.cancelMarks(marks);
+        this.emit("error", error);
+      });
+    }
+
+    return this.decoder;
+  }
+
+  private handleDecodedAudio(
+    channels: Float32Array[],
+    sampleRate: number,
+    turnId?: string
+  ): void {
+    // The turn may have changed while the chunk was being decoded
+    const stale = turnId && this.currentTurnId && turnId !== this.currentTurnId;
+    if (this.audioContext && channels.length > 0 && !stale) {
+      const audioBuffer = this.channelsToAudioBuffer(channels, sampleRate);
+      if (audioBuffer) {
+        this.scheduleBuffer(audioBuffer, turnId);
+      }
+    }
+
+    // Marks queued behind the decoded audio can be placed now
+    if (this.decodingMarks.length > 0 && !this.decoder?.hasPendingOutput()) {
+      const marks = this.decodingMarks;
+      this.decodingMarks = [];
+      for (const mark of marks) {
+        this.placeMark(mark);
+      }
+    }
+  }
+
+  /**
+   * Play a chunk of a WAV stream (the header, if present, starts a new one)
+   */
+  private queueWav(data: ArrayBuffer, turnId?: string): void {
+    let bytes: Uint8Array = new Uint8Array(data);
+    if (isWav(bytes)) {
+      this.wavStream = {
+        header: new Uint8Array(0),
+        format: null,
+        turnId,
+        remaining: Infinity,
+        partial: new Uint8Array(0),
+      };
+    }
+    const stream = this.wavStream;
+    if (!stream) return;
+
+    // Wait for the rest of a header split across chunks
+    if (stream.header) {
+      bytes = concatBytes(stream.header, bytes);
+      let header: WavHeader | null;
+      try {
+        header = parsePartialWavHeader(bytes);
+      } catch (error) {
+        this.wavStream = null;
+        throw error;
+      }
+      if (!header) {
+        stream.header = bytes;
+        return;
+      }
+      stream.header = null;
+      stream.format = header.format;
+      stream.remaining = header.dataLength ?? Infinity;
+      bytes = bytes.subarray(header.dataOffset);
+    }
+    const format = stream.format!;
+
+    // Anything after the sample data (e.g. a LIST chunk) isn't audio
+    const length = Math.min(bytes.byteLength, stream.remaining);
+    stream.remaining -= length;
+    const samples = concatBytes(stream.partial, bytes.subarray(0, length));
+
+    const frameBytes = (format.bitDepth / 8) * format.channels;
+    const whole = samples.byteLength - (samples.byteLength % frameBytes);
+    stream.partial = samples.slice(whole);
+    if (stream.remaining === 0) {
+      this.wavStream = null;
+    }
+
+    if (whole === 0) return;
+    const audioBuffer = this.channelsToAudioBuffer(
+      decodeWavSamples(samples.subarray(0, whole), format),
+      format.sampleRate
+    );
+    if (audioBuffer) {
+      this.scheduleBuffer(audioBuffer, turnId);
+    }
+  }
+
+  private closeDecoder(): void {
+    if (this.decoder) {
+      this.decoder.close();
+      this.decoder = null;
+    }
+  }
+
+  private createAudioBuffer(data: ArrayBuffer): AudioBuffer | null {
+    // Convert PCM (or G.711) to Float32
+    const floatData =
+      this.config.codec === "mulaw" || this.config.codec === "alaw"
+        ? AudioFormatConverter.g711ToFloat(
+            new Uint8Array(data),
+            this.config.codec
+          )
+        : AudioFormatConverter.pcmToFloat(data, this.config.bitDepth);
+
+    return this.floatToAudioBuffer(floatData);
+  }
+
+  /**
+   * Create an AudioBuffer from interleaved samples in the configured format
+   */
+  private floatToAudioBuffer(floatData: Float32Array): AudioBuffer | null {
+    const numChannels = this.config.channels;
+    const numSamples = Math.floor(floatData.length / numChannels);
+
+    // Deinterleave stereo
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < numChannels; ch++) {
+      if (numChannels === 1) {
+        channels.push(floatData);
+        break;
+      }
+      const samples = new Float32Array(numSamples);
       for (let i = 0; i < numSamples; i++) {
-        left[i] = floatData[i * 2];
-        right[i] = floatData[i * 2 + 1];
+        samples[i] = floatData[i * numChannels + ch];
       }
+      channels.push(samples);
+    }
+
+    return this.channelsToAudioBuffer(channels, this.config.sampleRate);
+  }
+
+  /**
+   * Create an AudioBuffer from planar samples, resampling to the context rate
+   * if configured and time-stretching to the playback rate
+   * @returns null if there are no samples to play yet (resampler latency)
+   */
+  private channelsToAudioBuffer(
+    channels: Float32Array[],
+    sampleRate: number
+  ): AudioBuffer | null {
+    if (!this.audioContext) {
+      throw new Error("AudioContext not initialized");
+    }
+
+    let output = channels;
+    let outputRate = sampleRate;
+    const contextRate = this.audioContext.sampleRate;
+
+    if (this.getResampleQuality() && sampleRate !== contextRate) {
+      output = this.getResamplers(channels.length, sampleRate).map(
+        (resampler, ch) => resampler.process(channels[ch])
+      );
+      outputRate = contextRate;
+    }
+
+    if (this.isTimeStretching()) {
+      output = this.getTimeStretcher(output.length, outputRate).process(output);
     }
 
+    return this.createBufferFromChannels(output, outputRate);
+  }
+
+  /**
+   * Copy planar samples into an AudioBuffer
+   * @returns null if there are no samples
+   */
+  private createBufferFromChannels(
+    output: Float32Array[],
+    outputRate: number
+  ): AudioBuffer | null {
+    if (!this.audioContext) {
+      throw new Error("AudioContext not initialized");
+    }
+
+    if (output.length === 0 || output[0].length === 0) {
+      return null;
+    }
+
+    const audioBuffer = this.audioContext.createBuffer(
+      output.length,
+      output[0].length,
+      outputRate
+    );
+    output.forEach((samples, ch) =>
+      audioBuffer.copyToChannel(samples as Float32Array<ArrayBuffer>, ch)
+    );
+
     return audioBuffer;
   }
 
+  /**
+   * Resampler quality to use, or null to let the browser resample
+   * The worklet engine plays at the context rate, so it always resamples.
+   */
+  private getResampleQuality(): ResampleQuality | null {
+    if (this.config.resampleQuality !== "native") {
+      return this.config.resampleQuality;
+    }
+    return this.workletEngine ? "medium" : null;
+  }
+
+  /**
+   * Get per-channel resamplers for a stream, recreating them if the format changed
+   */
+  private getResamplers(numChannels: number, sampleRate: number): Resampler[] {
+    const quality = this.getResampleQuality();
+    if (
+      !quality ||
+      !this.audioContext ||
+      (this.resamplers.length === numChannels &&
+        this.resamplers[0].getInputRate() === sampleRate)
+    ) {
+      return this.resamplers;
+    }
+
+    this.resamplers = [];
+    for (let ch = 0; ch < numChannels; ch++) {
+      this.resamplers.push(
+        new Resampler(sampleRate, this.audioContext.sampleRate, quality)
+      );
+    }
+    return this.resamplers;
+  }
+
+  /**
+   * Check if audio needs to go through the time stretcher
+   * At rate 1 it still does until the audio it holds back has been drained.
+   */
+  private isTimeStretching(): boolean {
+    return (
+      this.config.playbackRate !== 1 ||
+      (this.timeStretcher?.isActive() ?? false)
+    );
+  }
+
+  /**
+   * Get the time stretcher for a stream, recreating it if the format changed
+   */
+  private getTimeStretcher(
+    numChannels: number,
+    sampleRate: number
+  ): TimeStretcher {
+    if (
+      !this.timeStretcher ||
+      this.timeStretcher.getChannels() !== numChannels ||
+      this.timeStretcher.getSampleRate() !== sampleRate
+    ) {
+      this.timeStretcher = new TimeStretcher(
+        sampleRate,
+        numChannels,
+        this.config.playbackRate
+      );
+    }
+    return this.timeStretcher;
+  }
+
+  /**
+   * Take the audio the resamplers and time stretcher are holding back (end of
+   * a stream)
+   */
+  private drainStream(): AudioBuffer | null {
+    let output: Float32Array[] = [];
+    let outputRate = 0;
+
+    // The resampler tail still has to go through the time stretcher
+    if (this.resamplers[0]?.isActive()) {
+      output = this.resamplers.map((resampler) => resampler.flush());
+      outputRate = this.resamplers[0].getOutputRate();
+      if (this.isTimeStretching()) {
+        output = this.getTimeStretcher(output.length, outputRate).process(
+          output
+        );
+      }
+    }
+
+    if (this.timeStretcher?.isActive()) {
+      const tail = this.timeStretcher.flush();
+      output =
+        output.length > 0
+          ? output.map((samples, ch) => {
+              const joined = new Float32Array(samples.length + tail[ch].length);
+              joined.set(samples, 0);
+              joined.set(tail[ch], samples.length);
+              return joined;
+            })
+          : tail;
+      outputRate = this.timeStretcher.getSampleRate();
+    }
+
+    return output.length > 0
+      ? this.createBufferFromChannels(output, outputRate)
+      : null;
+  }
+
+  /**
+   * Reset resampler and time stretcher state when the stream is discontinued
+   */
+  private resetStreamState(): void {
+    this.wavStream = null;
+    this.resamplers.forEach((resampler) => resampler.reset());
+    this.timeStretcher?.reset();
+  }
+
   private playNext(): void {
+    // The resamplers and time stretcher hold back the end of the stream until
+    // more audio arrives
+    if (this.audioContext && this.isPlaying && this.audioQueue.length === 0) {
+      const tail = this.drainStream();
+      if (tail) {
+        const startTime = Math.max(
+          this.nextPlayTime,
+          this.audioContext.currentTime
+        );
+        this.audioQueue.push({
+          buffer: tail,
+          startTime,
+          turnId: this.lastScheduledTurnId ?? undefined,
+          rate: this.config.playbackRate,
+        });
+        this.nextPlayTime = startTime + tail.duration;
+      }
+    }
+
     if (!this.audioContext || !this.gainNode || this.audioQueue.length === 0) {
+      if (this.isPlaying && this.concealUnderrun()) {
+        return;
+      }
       if (this.isPlaying) {
         // console.log("[AudioPlayback] playNext: queue empty, playback ended");
         this.isPlaying = false;
         this.currentSourceTurnId = null;
+        this.lastPlayedBuffer = null;
         this.emit("ended");
         this.emit("buffer-empty");
       }
       return;
     }
 
-    const { buffer, startTime, turnId } = this.audioQueue.shift()!;
+    const {
+      buffer,
+      startTime,
+      turnId,
+      rate,
+      offset = 0,
+      marks = [],
+    } = this.audioQueue.shift()!;
 
     // Skip if this audio is from an old turn
     if (turnId && this.currentTurnId && turnId !== this.currentTurnId) {
       // console.log("[AudioPlayback] playNext: skipping old turn audio");
+      this.cancelMarks(marks);
       this.playNext();
       return;
     }
 
     // console.log("[AudioPlayback] playNext: playing buffer, duration:", buffer.duration.toFixed(3), "s, sampleRate:", buffer.sampleRate, "contextState:", this.audioContext.state);
 
-    this.currentSource = this.audioContext.createBufferSource();
+    const source = this.audioContext.createBufferSource();
+    this.currentSource = source;
     this.currentSource.buffer = buffer;
     this.currentSource.connect(this.gainNode);
     this.currentSourceTurnId = turnId ?? null;
+    this.currentSourceMarks = marks;
+    this.lastPlayedBuffer = buffer;
+    this.isConcealing = false;
 
     this.currentSource.onended = () => {
       // console.log("[AudioPlayback] playNext: buffer ended, playing next");
+      if (this.currentSource === source) {
+        this.settleCurrentSource();
+        const reached = this.currentSourceMarks;
+        this.currentSourceMarks = [];
+        this.reachMarks(reached);
+      }
       this.playNext();
     };
 
-    // Schedule playback
+    // Schedule playback (never inside the fade-out of stopped audio)
     const currentTime = this.audioContext.currentTime;
-    const playAt = Math.max(startTime, currentTime);
+    const playAt = Math.max(startTime, currentTime, this.fadeEndTime);
+    this.currentSourceStartTime = playAt;
+    this.currentSourceDuration = buffer.duration - offset;
+    this.currentSourceOffset = offset;
+    this.currentSourceRate = rate;
 
     try {
-      this.currentSource.start(playAt);
+      this.currentSource.start(playAt, offset);
       // console.log("[AudioPlayback] playNext: started at", playAt.toFixed(3), "currentTime:", currentTime.toFixed(3));
     } catch (err) {
       console.error("[AudioPlayback] playNext: failed to start source:", err);
@@ -814,6 +1641,188 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
     this.emitLevel();
   }
 
+  /**
+   * Fade out and stop everything that is playing
+   * The sources are only stopped once the gain ramp has finished, and the
+   * gain returns to the volume at that moment; queued audio never starts
+   * before then. The worklet engine fades its ring buffer out itself.
+   */
+  private fadeOutPlayback(): void {
+    const source = this.currentSource;
+    this.currentSource = null;
+
+    // Paused audio is already silent
+    const fade =
+      this.isPlaying && !this.isPaused ? this.config.fadeMs / 1000 : 0;
+    this.workletEngine?.clear(fade);
+
+    if (!this.audioContext || !this.gainNode) return;
+
+    const gain = this.gainNode.gain;
+    const now = this.audioContext.currentTime;
+    const end = source ? now + fade : now;
+    gain.cancelScheduledValues(now);
+    if (end > now) {
+      gain.setValueAtTime(gain.value, now);
+      gain.linearRampToValueAtTime(0, end);
+    }
+    gain.setValueAtTime(this.getOutputGain(), end);
+    this.fadeEndTime = end;
+
+    if (source) {
+      source.onended = () => source.disconnect();
+      try {
+        source.stop(end);
+      } catch {
+        // Ignore if already stopped
+        source.disconnect();
+      }
+    }
+  }
+
+  private getOutputGain(): number {
+    return this.volume * this.duckLevel;
+  }
+
+  /**
+   * Move the gain to the volume and duck level
+   */
+  private updateGain(duration: number): void {
+    if (!this.audioContext || !this.gainNode || this.isPaused) {
+      // Applied when playback resumes
+      return;
+    }
+
+    const now = this.audioContext.currentTime;
+    if (this.fadeEndTime > now) {
+      // A fade-out is in progress: change the level it returns to
+      this.gainNode.gain.setValueAtTime(this.getOutputGain(), this.fadeEndTime);
+    } else {
+      this.rampGain(this.getOutputGain(), duration);
+    }
+  }
+
+  /**
+   * Ramp the gain from its current value (over fadeMs by default)
+   */
+  private rampGain(target: number, duration = this.config.fadeMs / 1000): void {
+    if (!this.audioContext || !this.gainNode) return;
+
+    const gain = this.gainNode.gain;
+    const now = this.audioContext.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(target, now + duration);
+  }
+
+  /**
+   * Put a mark after the last queued audio (or the playing chunk)
+   */
+  private placeMark(mark: PlaybackMark): void {
+    if (this.workletEngine) {
+      this.workletEngine.queueMark((reached) => this.settleMark(mark, reached));
+      return;
+    }
+
+    const last = this.audioQueue[this.audioQueue.length - 1];
+    if (last) {
+      if (!last.marks) last.marks = [];
+      last.marks.push(mark);
+    } else if (this.currentSource && !this.isConcealing) {
+      this.currentSourceMarks.push(mark);
+    } else {
+      this.settleMark(mark, true);
+    }
+  }
+
+  /**
+   * Remove every pending mark (the worklet engine cancels its own on clear)
+   */
+  private takeMarks(): PlaybackMark[] {
+    const marks = [
+      ...this.currentSourceMarks,
+      ...this.audioQueue.flatMap((item) => item.marks ?? []),
+      ...this.decodingMarks,
+    ];
+    this.currentSourceMarks = [];
+    this.decodingMarks = [];
+    for (const item of this.audioQueue) {
+      item.marks = undefined;
+    }
+    return marks;
+  }
+
+  private reachMarks(marks: PlaybackMark[]): void {
+    for (const mark of marks) {
+      this.settleMark(mark, true);
+    }
+  }
+
+  private cancelMarks(marks: PlaybackMark[]): void {
+    for (const mark of marks) {
+      this.settleMark(mark, false);
+    }
+  }
+
+  private settleMark(mark: PlaybackMark, reached: boolean): void {
+    this.emit("mark", mark.name, {
+      turnId: mark.turnId,
+      cancelled: !reached,
+    });
+    mark.resolve(reached);
+  }
+
+  /**
+   * Seconds a queued item will play for
+   */
+  private getQueuedDuration(item: QueuedAudio): number {
+    return item.buffer.duration - (item.offset ?? 0);
+  }
+
+  private handleStateChange = (): void => {
+    // Auto-play queued audio when the context resumes
+    if (
+      this.audioContext?.state === "running" &&
+      this.audioQueue.length > 0 &&
+      !this.isPlaying &&
+      !this.isPaused
+    ) {
+      this.playNext();
+    }
+  };
+
+  /**
+   * Seconds of the current source that have been heard so far
+   */
+  private getCurrentSourceElapsed(): number {
+    if (!this.audioContext) return 0;
+    const elapsed = this.audioContext.currentTime - this.currentSourceStartTime;
+    return Math.max(0, Math.min(this.currentSourceDuration, elapsed));
+  }
+
+  /**
+   * Add the heard part of the current source to its turn's played duration
+   */
+  private settleCurrentSource(): void {
+    const turnId = this.currentSourceTurnId;
+    if (turnId && this.currentSource) {
+      const played =
+        (this.playedDurations.get(turnId) ?? 0) +
+        this.getCurrentSourceElapsed() * this.currentSourceRate;
+
+      // Re-insert so the map stays ordered by most recent activity
+      this.playedDurations.delete(turnId);
+      this.playedDurations.set(turnId, played);
+      if (this.playedDurations.size > this.maxTrackedTurns) {
+        const oldest = this.playedDurations.keys().next().value;
+        if (oldest !== undefined) {
+          this.playedDurations.delete(oldest);
+        }
+      }
+    }
+    this.currentSourceDuration = 0;
+  }
+
   private emitLevel(): void {
     if (!this.analyzerNode || !this.isPlaying) return;
 
@@ -830,6 +1839,16 @@ export class AudioPlayback extends TypedEventEmitter<AudioPlaybackEvents> {
 
   private startBufferMonitoring(): void {
     this.bufferCheckInterval = window.setInterval(() => {
+      // Jitter buffer stats once per second while playing
+      this.bufferCheckCount++;
+      if (this.jitterBuffer && this.isPlaying && this.bufferCheckCount >= 10) {
+        this.bufferCheckCount = 0;
+        const stats = this.getJitterStats();
+        if (stats) {
+          this.emit("jitter-stats", stats);
+        }
+      }
+
       const buffered = this.getBufferedDuration();
       if (
         this.isPlaying &&
@@ -0,0 +1,149 @@
+/**
+ * Single-producer / single-consumer ring buffer of interleaved audio frames
+ *
+ * The main thread writes and the playback AudioWorklet reads. When backed by
+ * SharedArrayBuffers (cross-origin isolated pages) both sides wrap the same
+ * memory and no messages are needed; otherwise the worklet keeps its own
+ * buffer and the main thread posts samples to it.
+ *
+ * Positions are frame counters that wrap at 2^32. The writer only advances
+ * the write position and the reader only advances the read position, so
+ * Atomics loads/stores are enough to keep the two threads consistent.
+ *
+ * Note: this class is injected into the playback AudioWorklet via
+ * toString(), so it must stay self-contained (no imports or module state).
+ */
+export class AudioRingBuffer {
+  // [framesWritten, framesRead]
+  private state: Uint32Array;
+  private data: Float32Array;
+  private capacity: number;
+  private channels: number;
+
+  /**
+   * @param capacity - Size in frames
+   * @param channels - Interleaved channel count
+   * @param storage - Existing storage to wrap (e.g. shared with another thread)
+   */
+  constructor(
+    capacity: number,
+    channels: number,
+    storage?: { state: ArrayBufferLike; data: ArrayBufferLike }
+  ) {
+    this.capacity = capacity;
+    this.channels = channels;
+    this.state = new Uint32Array(storage ? storage.state : new ArrayBuffer(8));
+    this.data = new Float32Array(
+      storage ? storage.data : new ArrayBuffer(capacity * channels * 4)
+    );
+  }
+
+  /**
+   * Allocate SharedArrayBuffer storage for use on two threads
+   */
+  static allocateShared(
+    capacity: number,
+    channels: number
+  ): { state: SharedArrayBuffer; data: SharedArrayBuffer } {
+    return {
+      state: new SharedArrayBuffer(8),
+      data: new SharedArrayBuffer(capacity * channels * 4),
+    };
+  }
+
+  /**
+   * Get the underlying storage
+   */
+  getStorage(): { state: ArrayBufferLike; data: ArrayBufferLike } {
+    return { state: this.state.buffer, data: this.data.buffer };
+  }
+
+  /**
+   * Get the size in frames
+   */
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Total frames written (wraps at 2^32)
+   */
+  getWritePosition(): number {
+    return Atomics.load(this.state, 0);
+  }
+
+  /**
+   * Total frames read (wraps at 2^32)
+   */
+  getReadPosition(): number {
+    return Atomics.load(this.state, 1);
+  }
+
+  /**
+   * Frames waiting to be read
+   */
+  availableRead(): number {
+    return (this.getWritePosition() - this.getReadPosition()) >>> 0;
+  }
+
+  /**
+   * Frames that can be written without overwriting unread audio
+   */
+  availableWrite(): number {
+    return this.capacity - this.availableRead();
+  }
+
+  /**
+   * Write planar samples (producer side)
+   * Mono input is duplicated to every channel; extra input channels are ignored.
+   * @returns Number of frames written (less than requested if the buffer is full)
+   */
+  write(input: Float32Array[], offset: number, frames: number): number {
+    const count = Math.min(frames, this.availableWrite());
+    const channels = this.channels;
+    let position = this.getWritePosition() % this.capacity;
+
+    for (let i = 0; i < count; i++) {
+      const base = position * channels;
+      for (let ch = 0; ch < channels; ch++) {
+        const source = input[Math.min(ch, input.length - 1)];
+        this.data[base + ch] = source[offset + i];
+      }
+      position = position + 1 === this.capacity ? 0 : position + 1;
+    }
+
+    Atomics.store(this.state, 0, (this.getWritePosition() + count) >>> 0);
+    return count;
+  }
+
+  /**
+   * Read into planar outputs (consumer side)
+   * @returns Number of frames read (less than requested on underrun)
+   */
+  read(output: Float32Array[], frames: number): number {
+    const count = Math.min(frames, this.availableRead());
+    const channels = this.channels;
+    let position = this.getReadPosition() % this.capacity;
+
+    for (let i = 0; i < count; i++) {
+      const base = position * channels;
+      for (let ch = 0; ch < output.length && ch < channels; ch++) {
+        output[ch][i] = this.data[base + ch];
+      }
+      position = position + 1 === this.capacity ? 0 : position + 1;
+    }
+
+    Atomics.store(this.state, 1, (this.getReadPosition() + count) >>> 0);
+    return count;
+  }
+
+  /**
+   * Discard unread frames up to a write position (consumer side)
+   */
+  skipTo(position: number): void {
+    const distance = (position - this.getReadPosition()) >>> 0;
+    if (distance <= this.availableRead()) {
+      Atomics.store(this.state, 1, position >>> 0);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { TypedEventEmitter } from "./EventEmitter";
+import { createAudioContext } from "./utils";
 
 interface AudioRouterConfig {
   sampleRate?: number;
@@ -17,6 +18,8 @@ interface Destination {
 interface QueuedAudio {
   buffer: AudioBuffer;
   startTime: number;
+  // Seconds into the buffer to start from (the rest of a paused buffer)
+  offset?: number;
 }
 
 interface AudioRouterEvents {
@@ -52,11 +55,13 @@ interface AudioRouterEvents {
  */
 export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
   private audioContext: AudioContext | null = null;
+  private sharedContext: AudioContext | null = null;
   private masterGain: GainNode | null = null;
   private streamDestination: MediaStreamAudioDestinationNode | null = null;
   private destinations: Map<string, Destination> = new Map();
   private audioQueue: QueuedAudio[] = [];
   private currentSources: AudioBufferSourceNode[] = [];
+  private currentItem: QueuedAudio | null = null;
   private isPlaying = false;
   private isPaused = false;
   private nextPlayTime = 0;
@@ -75,18 +80,9 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
    * Initialize the audio router
    */
   async initialize(): Promise<void> {
-    const AudioContextClass =
-      window.AudioContext ||
-      (window as unknown as { webkitAudioContext: typeof AudioContext })
-        .webkitAudioContext;
-
-    if (!AudioContextClass) {
-      throw new Error("Web Audio API not supported");
-    }
-
-    this.audioContext = new AudioContextClass({
-      sampleRate: this.config.sampleRate,
-    });
+    this.audioContext =
+      this.sharedContext ??
+      createAudioContext({ sampleRate: this.config.sampleRate });
 
     // Master gain for overall volume control
     this.masterGain = this.audioContext.createGain();
@@ -111,6 +107,15 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
     });
   }
 
+  /**
+   * Use an existing AudioContext (e.g. the one Chatdio shares)
+   * Takes effect on the next initialize(). A shared context is never closed
+   * or suspended by the router; pass null to create one again.
+   */
+  setAudioContext(audioContext: AudioContext | null): void {
+    this.sharedContext = audioContext;
+  }
+
   /**
    * Get the AudioContext for creating custom nodes
    */
@@ -350,6 +355,7 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
     }
 
     this.currentSources = [];
+    this.currentItem = null;
     this.audioQueue = [];
     this.isPlaying = false;
     this.isPaused = false;
@@ -359,21 +365,63 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
 
   /**
    * Pause playback
+   * Suspends the AudioContext, or with a shared context stops the playing
+   * source and keeps the rest of it queued.
    */
   pause(): void {
-    if (this.audioContext && this.isPlaying) {
+    if (!this.audioContext || !this.isPlaying || this.isPaused) return;
+
+    this.isPaused = true;
+    if (this.audioContext !== this.sharedContext) {
       this.audioContext.suspend();
-      this.isPaused = true;
+      return;
+    }
+
+    const item = this.currentItem;
+    if (item) {
+      const elapsed = this.audioContext.currentTime - item.startTime;
+      const offset = (item.offset ?? 0) + Math.max(0, elapsed);
+      if (offset < item.buffer.duration) {
+        this.audioQueue.unshift({ buffer: item.buffer, startTime: 0, offset });
+      }
+    }
+
+    for (const source of this.currentSources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Ignore if already stopped
+      }
+      source.disconnect();
     }
+    this.currentSources = [];
+    this.currentItem = null;
   }
 
   /**
    * Resume playback
    */
   async resume(): Promise<void> {
-    if (this.audioContext && this.isPaused) {
+    if (!this.audioContext || !this.isPaused) return;
+
+    if (this.audioContext.state === "suspended") {
       await this.audioContext.resume();
-      this.isPaused = false;
+    }
+    this.isPaused = false;
+
+    if (this.audioContext === this.sharedContext) {
+      // Lay the queue out again from now
+      let time = this.audioContext.currentTime;
+      for (const item of this.audioQueue) {
+        item.startTime = time;
+        time += item.buffer.duration - (item.offset ?? 0);
+      }
+      this.nextPlayTime = time;
+
+      if (this.isPlaying && this.currentSources.length === 0) {
+        this.playNext();
+      }
     }
   }
 
@@ -388,7 +436,10 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
    * Get buffered audio duration in seconds
    */
   getBufferedDuration(): number {
-    return this.audioQueue.reduce((sum, item) => sum + item.buffer.duration, 0);
+    return this.audioQueue.reduce(
+      (sum, item) => sum + item.buffer.duration - (item.offset ?? 0),
+      0
+    );
   }
 
   /**
@@ -436,7 +487,11 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
       this.masterGain = null;
     }
 
-    if (this.audioContext && this.audioContext.state !== "closed") {
+    if (
+      this.audioContext &&
+      this.audioContext !== this.sharedContext &&
+      this.audioContext.state !== "closed"
+    ) {
       this.audioContext.close().catch(() => {});
     }
     this.audioContext = null;
@@ -450,6 +505,7 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
       !this.masterGain ||
       this.audioQueue.length === 0
     ) {
+      this.currentItem = null;
       if (this.isPlaying) {
         this.isPlaying = false;
         this.emit("ended");
@@ -457,7 +513,7 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
       return;
     }
 
-    const { buffer, startTime } = this.audioQueue.shift()!;
+    const { buffer, startTime, offset = 0 } = this.audioQueue.shift()!;
 
     const source = this.audioContext.createBufferSource();
     source.buffer = buffer;
@@ -475,9 +531,10 @@ export class AudioRouter extends TypedEventEmitter<AudioRouterEvents> {
 
     const currentTime = this.audioContext.currentTime;
     const playAt = Math.max(startTime, currentTime);
+    this.currentItem = { buffer, startTime: playAt, offset };
 
     try {
-      source.start(playAt);
+      source.start(playAt, offset);
     } catch (err) {
       console.error("[AudioRouter] Failed to start source:", err);
       this.emit("error", err as Error);
@@ -0,0 +1,149 @@
+/**
+ * Capture pipeline configuration
+ */
+export interface CapturePipelineOptions {
+  /** Number of input samples (at the device rate) to accumulate before processing */
+  inputChunkSize: number;
+  /**
+   * Fixed number of output samples (at the output rate) per emitted frame.
+   * 0 emits whatever each input chunk resamples to.
+   */
+  outputFrameSize?: number;
+}
+
+/**
+ * Processing stages plugged into the capture pipeline
+ * Passed in rather than imported so the pipeline can run inside the AudioWorklet.
+ */
+export interface CapturePipelineStages {
+  /** Stateful resampler from the device rate to the output rate, or null if rates match */
+  resampler: {
+    process(input: Float32Array): Float32Array;
+    reset(): void;
+  } | null;
+  /** Remove the echo of the reference signal from output-rate samples */
+  echoCanceller?: {
+    process(input: Float32Array, reference: Float32Array): Float32Array;
+    reset(): void;
+  } | null;
+  /** Resampler for the echo reference (same rates as resampler) */
+  referenceResampler?: {
+    process(input: Float32Array): Float32Array;
+    reset(): void;
+  } | null;
+  /** Encode output-rate samples into a standalone ArrayBuffer */
+  encode: (samples: Float32Array) => ArrayBuffer;
+  /** Inspect output-rate samples before framing (e.g. voice activity detection) */
+  analyze?: (samples: Float32Array) => void;
+}
+
+/**
+ * Turns raw device-rate microphone samples into encoded output chunks:
+ * accumulate -> resample -> cancel echo -> analyze -> frame -> encode.
+ *
+ * Runs inside the capture AudioWorklet (so no audio work happens on the main
+ * thread) and on the main thread for the ScriptProcessorNode fallback.
+ *
+ * Note: this class is injected into the AudioWorklet via toString(), so it
+ * must stay self-contained (no imports or module state).
+ */
+export class CapturePipeline {
+  private options: CapturePipelineOptions;
+  private stages: CapturePipelineStages;
+  private buffer: Float32Array;
+  private bufferIndex = 0;
+
+  // Echo reference accumulated alongside the input (echo cancellation only)
+  private referenceBuffer: Float32Array | null;
+
+  // Output frame accumulator (fixed frame sizing only)
+  private frame: Float32Array | null;
+  private frameIndex = 0;
+
+  constructor(options: CapturePipelineOptions, stages: CapturePipelineStages) {
+    this.options = options;
+    this.stages = stages;
+    this.buffer = new Float32Array(options.inputChunkSize);
+    this.referenceBuffer = stages.echoCanceller
+      ? new Float32Array(options.inputChunkSize)
+      : null;
+    this.frame =
+      options.outputFrameSize && options.outputFrameSize > 0
+        ? new Float32Array(options.outputFrameSize)
+        : null;
+  }
+
+  /**
+   * Push device-rate samples; returns any chunks that are ready to emit
+   * @param reference - Device-rate echo reference played at the same time
+   *   (silence if missing)
+   */
+  push(input: Float32Array, reference?: Float32Array): ArrayBuffer[] {
+    const chunks: ArrayBuffer[] = [];
+
+    for (let i = 0; i < input.length; i++) {
+      if (this.referenceBuffer) {
+        this.referenceBuffer[this.bufferIndex] =
+          reference && i < reference.length ? reference[i] : 0;
+      }
+      this.buffer[this.bufferIndex++] = input[i];
+
+      if (this.bufferIndex >= this.options.inputChunkSize) {
+        this.processChunk(this.buffer, chunks);
+        this.bufferIndex = 0;
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Discard buffered samples and filter state
+   */
+  reset(): void {
+    this.bufferIndex = 0;
+    this.frameIndex = 0;
+    if (this.stages.resampler) {
+      this.stages.resampler.reset();
+    }
+    if (this.stages.referenceResampler) {
+      this.stages.referenceResampler.reset();
+    }
+    if (this.stages.echoCanceller) {
+      this.stages.echoCanceller.reset();
+    }
+  }
+
+  private processChunk(input: Float32Array, out: ArrayBuffer[]): void {
+    let samples = this.stages.resampler
+      ? this.stages.resampler.process(input)
+      : input;
+
+    if (this.stages.echoCanceller && this.referenceBuffer) {
+      const reference = this.stages.referenceResampler
+        ? this.stages.referenceResampler.process(this.referenceBuffer)
+        : this.referenceBuffer;
+      samples = this.stages.echoCanceller.process(samples, reference);
+    }
+
+    if (this.stages.analyze && samples.length > 0) {
+      this.stages.analyze(samples);
+    }
+
+    if (!this.frame) {
+      if (samples.length > 0) {
+        out.push(this.stages.encode(samples));
+      }
+      return;
+    }
+
+    // Slice the resampled stream into exact output-rate frames
+    for (let i = 0; i < samples.length; i++) {
+      this.frame[this.frameIndex++] = samples[i];
+      if (this.frameIndex >= this.frame.length) {
+        out.push(this.stages.encode(this.frame));
+        this.frameIndex = 0;
+      }
+    }
+  }
+}
@@ -4,12 +4,27 @@ import { MicrophoneCapture } from "./MicrophoneCapture";
 import { AudioPlayback } from "./AudioPlayback";
 import { WebSocketBridge } from "./WebSocketBridge";
 import { ActivityAnalyzer } from "./ActivityAnalyzer";
+import { SessionRecorder } from "./SessionRecorder";
+import { getOpusPacketDuration, parseOpusFrames } from "./OpusEncoder";
+import { createAudioContext } from "./utils";
 import type {
   ChatdioConfig,
   ChatdioEvents,
   AudioDevice,
   AudioActivityData,
   ConnectionState,
+  CaptureCodec,
+  SpeechGatingConfig,
+  BargeInConfig,
+  DuckingConfig,
+  InterruptReason,
+  VADEvent,
+  EchoCancellerStats,
+  SessionRecorderConfig,
+  TurnInterruptInfo,
+  TurnEndInfo,
+  AudioFormat,
+  ProtocolEvent,
 } from "./types";
 
 /**
@@ -25,30 +40,82 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
   private micAnalyzer: ActivityAnalyzer;
   private playbackAnalyzer: ActivityAnalyzer;
 
+  // Shared by capture and playback (created on initialize unless provided)
+  private audioContext: AudioContext | null = null;
+
   private isInitialized = false;
   private isMicActive = false;
   private config: ChatdioConfig;
 
   // Turn management
   private currentTurnId: string | null = null;
+  private endedTurnId: string | null = null;
   private turnCounter = 0;
 
+  // Speech-gated streaming (null when every chunk is sent)
+  private speechGating: Required<SpeechGatingConfig> | null;
+  private speechGateOpen = false;
+  private preRoll: { data: ArrayBuffer; durationMs: number }[] = [];
+  private preRollDurationMs = 0;
+
+  // Automatic barge-in (null when disabled)
+  private bargeIn: Required<BargeInConfig> | null;
+  private bargeInTimer: ReturnType<typeof setTimeout> | null = null;
+  private bargeInMicEnergy = 0;
+  private bargeInPlaybackEnergy = 0;
+  private bargeInSamples = 0;
+
+  // Playback ducking (null when disabled)
+  private ducking: Required<DuckingConfig> | null;
+  private isDucked = false;
+
+  // Session recording (null when not recording)
+  private recorder: SessionRecorder | null = null;
+  private recorderCleanup: (() => void) | null = null;
+
+  // Protocol marks: queued behind the audio received before them, and only
+  // echoed on the connection they arrived on
+  private lastQueuedAudio: Promise<void> = Promise.resolve();
+  private markConnection = 0;
+
   constructor(config: ChatdioConfig = {}) {
     super();
     this.config = config;
-
-    // Initialize components
-    this.deviceManager = new AudioDeviceManager(config.deviceManager);
-    this.microphone = new MicrophoneCapture(config.microphone);
-    this.playback = new AudioPlayback(config.playback);
-    this.micAnalyzer = new ActivityAnalyzer(config.activityAnalyzer);
-    this.playbackAnalyzer = new ActivityAnalyzer(config.activityAnalyzer);
+    this.speechGating = this.getSpeechGatingConfig(config);
+    this.ducking = this.getDuckingConfig(config);
+    this.bargeIn = this.getBargeInConfig(config);
 
     // Create WebSocket bridge if config provided
     if (config.websocket) {
       this.websocket = new WebSocketBridge(config.websocket);
     }
 
+    // Initialize components
+    this.deviceManager = new AudioDeviceManager(config.deviceManager);
+    // Capture and play in the formats the server (or its protocol) speaks
+    // unless overridden
+    const protocol = this.websocket?.getProtocol();
+    const sendFormat = config.websocket?.sendFormat ?? protocol?.sendFormat;
+    const receiveFormat =
+      config.websocket?.receiveFormat ?? protocol?.receiveFormat;
+    this.microphone = new MicrophoneCapture({
+      ...config.microphone,
+      vad:
+        config.microphone?.vad ??
+        Boolean(this.speechGating || this.ducking || this.bargeIn),
+      sampleRate: config.microphone?.sampleRate ?? sendFormat?.sampleRate,
+      codec: config.microphone?.codec ?? this.getCaptureCodec(sendFormat),
+    });
+    this.playback = new AudioPlayback({
+      ...config.playback,
+      sampleRate: config.playback?.sampleRate ?? receiveFormat?.sampleRate,
+      bitDepth: config.playback?.bitDepth ?? receiveFormat?.bitDepth,
+      channels: config.playback?.channels ?? receiveFormat?.channels,
+      codec: config.playback?.codec ?? receiveFormat?.codec,
+    });
+    this.micAnalyzer = new ActivityAnalyzer(config.activityAnalyzer);
+    this.playbackAnalyzer = new ActivityAnalyzer(config.activityAnalyzer);
+
     this.setupEventForwarding();
   }
 
@@ -62,12 +129,23 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     }
 
     try {
+      // One context for capture and playback, created while the user
+      // gesture is still active (before the permission prompt)
+      if (!this.audioContext) {
+        this.audioContext = this.config.audioContext ?? createAudioContext();
+        this.microphone.setAudioContext(this.audioContext);
+        this.playback.setAudioContext(this.audioContext);
+      }
+
       // Initialize device manager first (requests permissions)
       await this.deviceManager.initialize();
 
       // Initialize playback system
       await this.playback.initialize();
 
+      // What the speakers play is the reference for software echo cancellation
+      this.microphone.setEchoReference(this.playback.getAnalyzerNode());
+
       // Auto-unlock audio for iOS if requested (default: true)
       // This plays a tiny silent buffer to unlock the audio system,
       // allowing subsequent programmatic audio playback on iOS Safari.
@@ -87,6 +165,7 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
    * Clean up all resources
    */
   dispose(): void {
+    this.disposeRecorder();
     this.stopMicrophone();
     this.stopPlayback();
     this.disconnectWebSocket();
@@ -97,6 +176,15 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     this.playback.dispose();
     this.removeAllListeners();
 
+    if (
+      this.audioContext &&
+      this.audioContext !== this.config.audioContext &&
+      this.audioContext.state !== "closed"
+    ) {
+      this.audioContext.close().catch(() => {});
+    }
+    this.audioContext = null;
+
     this.isInitialized = false;
   }
 
@@ -134,6 +222,9 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     this.micAnalyzer.stop();
     this.microphone.stop();
     this.isMicActive = false;
+    this.clearPreRoll();
+    this.cancelBargeIn();
+    this.releaseDucking();
   }
 
   /**
@@ -143,6 +234,20 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     return this.microphone.isActive();
   }
 
+  /**
+   * Check if the user is currently speaking (voice activity detector)
+   */
+  isUserSpeaking(): boolean {
+    return this.microphone.isSpeaking();
+  }
+
+  /**
+   * Get software echo canceller statistics (null unless microphone aec is running)
+   */
+  getEchoStats(): EchoCancellerStats | null {
+    return this.microphone.getEchoStats();
+  }
+
   /**
    * Set microphone mute state (still captures but doesn't send)
    */
@@ -215,6 +320,21 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     }
   }
 
+  /**
+   * Queue a named mark after the audio queued so far
+   * playback:mark follows once it has been played, or with cancelled set if
+   * the audio before it is interrupted or cleared first.
+   * @param name - Mark name
+   * @param turnId - Optional turn ID (uses current turn if not provided)
+   * @returns Resolves to true when the mark is reached, false when cancelled
+   */
+  queueMark(name: string, turnId?: string): Promise<boolean> {
+    return this.playback.queueMark(
+      name,
+      turnId ?? this.currentTurnId ?? undefined
+    );
+  }
+
   /**
    * Stop playback and clear queue
    */
@@ -244,6 +364,28 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     return this.playback.isActive();
   }
 
+  /**
+   * Set the playback speed (0.5-2); pitch is preserved
+   * Applies to audio queued from now on.
+   */
+  setPlaybackRate(rate: number): void {
+    this.playback.setPlaybackRate(rate);
+  }
+
+  /**
+   * Get the playback speed
+   */
+  getPlaybackRate(): number {
+    return this.playback.getPlaybackRate();
+  }
+
+  /**
+   * Check if playback is currently ducked because the user is talking
+   */
+  isPlaybackDucked(): boolean {
+    return this.isDucked;
+  }
+
   /**
    * Set playback volume (0-1)
    */
@@ -306,6 +448,14 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     return this.websocket?.getState() ?? "disconnected";
   }
 
+  /**
+   * Get the last WebSocket ping round-trip time in ms (null before the first
+   * pong)
+   */
+  getLatency(): number | null {
+    return this.websocket?.getLatency() ?? null;
+  }
+
   /**
    * Send a message through WebSocket
    */
@@ -380,6 +530,14 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     return this.deviceManager.isOutputSelectionSupported();
   }
 
+  /**
+   * Get the AudioContext shared by capture and playback (null before
+   * initialize()), e.g. to add custom nodes or hand to an AudioRouter
+   */
+  getAudioContext(): AudioContext | null {
+    return this.audioContext;
+  }
+
   // ==================== Activity/Visualization Methods ====================
 
   /**
@@ -490,6 +648,15 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     return this.currentTurnId;
   }
 
+  /**
+   * Get how many milliseconds of a turn's audio have actually been played
+   * @param turnId - Turn to check (default: current turn)
+   */
+  getPlayedDuration(turnId?: string): number {
+    const id = turnId ?? this.currentTurnId;
+    return id ? this.playback.getPlayedDuration(id) : 0;
+  }
+
   /**
    * Set the current turn ID (for server-controlled turn management)
    *
@@ -526,39 +693,66 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
    *
    * For client-controlled turns (like our demo), this sends an interrupt message to the server.
    * For server-controlled turns, set notifyServer: false and handle server notification yourself.
+   * After endTurn(), the ended turn is interrupted if its audio is still playing.
    *
    * @param options - Configuration options
    * @param options.startNewTurn - Whether to start a new turn after interruption (default: true)
    * @param options.notifyServer - Whether to send interrupt message to server (default: true)
+   * @param options.reason - Reported in turn:interrupted (default: "manual")
    * @returns Object with interrupted turn ID and optionally new turn ID
    */
   interruptTurn(
-    options: { startNewTurn?: boolean; notifyServer?: boolean } | boolean = true
+    options:
+      | {
+          startNewTurn?: boolean;
+          notifyServer?: boolean;
+          reason?: InterruptReason;
+        }
+      | boolean = true
   ): {
     interruptedTurnId: string | null;
     newTurnId: string | null;
   } {
     // Support legacy boolean argument for backwards compatibility
-    const opts =
+    const opts: {
+      startNewTurn: boolean;
+      notifyServer: boolean;
+      reason: InterruptReason;
+    } =
       typeof options === "boolean"
-        ? { startNewTurn: options, notifyServer: true }
-        : { startNewTurn: true, notifyServer: true, ...options };
-
-    const { startNewTurn, notifyServer } = opts;
-    const interruptedTurnId = this.currentTurnId;
+        ? { startNewTurn: options, notifyServer: true, reason: "manual" }
+        : {
+            startNewTurn: true,
+            notifyServer: true,
+            reason: "manual",
+            ...options,
+          };
+
+    const { startNewTurn, notifyServer, reason } = opts;
+    // After endTurn() the ended turn's audio may still be playing
+    const interruptedTurnId =
+      this.currentTurnId ??
+      (this.endedTurnId && this.playback.hasAudioForTurn(this.endedTurnId)
+        ? this.endedTurnId
+        : null);
+    this.endedTurnId = null;
 
     // Interrupt playback
     this.playback.interruptTurn();
 
     // Emit interrupted event
     if (interruptedTurnId) {
-      this.emit("turn:interrupted", interruptedTurnId);
+      // How much the user actually heard, so the server can truncate its transcript
+      const playedMs = this.playback.getPlayedDuration(interruptedTurnId);
+      this.emit("turn:interrupted", interruptedTurnId, { reason, playedMs });
 
       // Notify server about the interruption (for client-controlled turns)
       if (notifyServer && this.websocket?.isConnected()) {
         this.websocket.sendMessage({
           type: "interrupt",
           turnId: interruptedTurnId,
+          reason,
+          playedMs,
         });
       }
     }
@@ -580,11 +774,14 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
    */
   endTurn(): string | null {
     const endedTurnId = this.currentTurnId;
+    this.endedTurnId = endedTurnId;
     this.currentTurnId = null;
     this.playback.setCurrentTurn(null);
 
     if (endedTurnId) {
-      this.emit("turn:ended", endedTurnId);
+      this.emit("turn:ended", endedTurnId, {
+        playedMs: this.playback.getPlayedDuration(endedTurnId),
+      });
     }
 
     return endedTurnId;
@@ -621,8 +818,360 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     return true;
   }
 
+  // ==================== Session Recording ====================
+
+  /**
+   * Start recording the conversation to a stereo WAV file (user left,
+   * assistant right), with turn boundaries from this instance's turn events
+   * @returns The recorder, e.g. for exportTurns() after stopping
+   */
+  async startRecording(
+    config?: SessionRecorderConfig
+  ): Promise<SessionRecorder> {
+    if (this.recorder) {
+      return this.recorder;
+    }
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const recorder = new SessionRecorder(config);
+    await recorder.start(this.microphone, this.playback);
+
+    const onStarted = (turnId: string) => recorder.markTurnStart(turnId);
+    const onInterrupted = (turnId: string, info: TurnInterruptInfo) =>
+      recorder.markTurnEnd(turnId, true, info.playedMs);
+    const onEnded = (turnId: string, info: TurnEndInfo) =>
+      recorder.markTurnEnd(turnId, false, info.playedMs);
+    this.on("turn:started", onStarted);
+    this.on("turn:interrupted", onInterrupted);
+    this.on("turn:ended", onEnded);
+    this.recorderCleanup = () => {
+      this.off("turn:started", onStarted);
+      this.off("turn:interrupted", onInterrupted);
+      this.off("turn:ended", onEnded);
+    };
+
+    // A turn already in progress is recorded from now
+    if (this.currentTurnId) {
+      recorder.markTurnStart(this.currentTurnId);
+    }
+
+    this.recorder = recorder;
+    return recorder;
+  }
+
+  /**
+   * Stop recording
+   * @returns The recording as a WAV Blob
+   */
+  async stopRecording(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      throw new Error("Not recording");
+    }
+    this.recorderCleanup?.();
+    this.recorderCleanup = null;
+    this.recorder = null;
+    return recorder.stop();
+  }
+
+  /**
+   * Check if the conversation is being recorded
+   */
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
   // ==================== Private Methods ====================
 
+  /**
+   * Abandon a recording in progress (nothing is written)
+   */
+  private disposeRecorder(): void {
+    this.recorderCleanup?.();
+    this.recorderCleanup = null;
+    this.recorder?.dispose();
+    this.recorder = null;
+  }
+
+  /**
+   * Resolve the speech gating option, or null when gating is disabled
+   */
+  private getSpeechGatingConfig(
+    config: ChatdioConfig
+  ): Required<SpeechGatingConfig> | null {
+    if (!config.speechGating) {
+      return null;
+    }
+    if (config.microphone?.vad === false) {
+      throw new Error("speechGating requires microphone VAD to be enabled");
+    }
+
+    const options = config.speechGating === true ? {} : config.speechGating;
+    return {
+      preRollMs: options.preRollMs ?? 300,
+      controlMessages: options.controlMessages ?? true,
+    };
+  }
+
+  /**
+   * Resolve the ducking option, or null when ducking is disabled
+   */
+  private getDuckingConfig(
+    config: ChatdioConfig
+  ): Required<DuckingConfig> | null {
+    if (!config.ducking) {
+      return null;
+    }
+    if (config.microphone?.vad === false) {
+      throw new Error("ducking requires microphone VAD to be enabled");
+    }
+    if (config.bargeIn) {
+      throw new Error(
+        "ducking and bargeIn can't both be enabled (use ducking.interruptAfterMs)"
+      );
+    }
+
+    const options = config.ducking === true ? {} : config.ducking;
+    return {
+      level: options.level ?? 0.3,
+      attackMs: options.attackMs ?? 50,
+      releaseMs: options.releaseMs ?? 400,
+      interruptAfterMs: options.interruptAfterMs ?? 1500,
+      echoThresholdDb: options.echoThresholdDb ?? -15,
+      startNewTurn: options.startNewTurn ?? true,
+    };
+  }
+
+  /**
+   * Resolve the barge-in option, or null when automatic barge-in is disabled
+   * With ducking, barge-in is the escalation after interruptAfterMs.
+   */
+  private getBargeInConfig(
+    config: ChatdioConfig
+  ): Required<BargeInConfig> | null {
+    if (this.ducking) {
+      return this.ducking.interruptAfterMs > 0
+        ? {
+            minSpeechMs: this.ducking.interruptAfterMs,
+            echoThresholdDb: this.ducking.echoThresholdDb,
+            startNewTurn: this.ducking.startNewTurn,
+          }
+        : null;
+    }
+    if (!config.bargeIn) {
+      return null;
+    }
+    if (config.microphone?.vad === false) {
+      throw new Error("bargeIn requires microphone VAD to be enabled");
+    }
+
+    const options = config.bargeIn === true ? {} : config.bargeIn;
+    return {
+      minSpeechMs: options.minSpeechMs ?? 300,
+      echoThresholdDb: options.echoThresholdDb ?? -15,
+      startNewTurn: options.startNewTurn ?? true,
+    };
+  }
+
+  /**
+   * Speech started over playback: measure levels for minSpeechMs, then decide
+   */
+  private startBargeIn(): void {
+    if (!this.bargeIn || this.bargeInTimer || !this.playback.isActive()) {
+      return;
+    }
+
+    this.bargeInMicEnergy = 0;
+    this.bargeInPlaybackEnergy = 0;
+    this.bargeInSamples = 0;
+    this.bargeInTimer = setTimeout(
+      () => this.evaluateBargeIn(),
+      this.bargeIn.minSpeechMs
+    );
+  }
+
+  private cancelBargeIn(): void {
+    if (this.bargeInTimer) {
+      clearTimeout(this.bargeInTimer);
+      this.bargeInTimer = null;
+    }
+  }
+
+  /**
+   * Accumulate mic and playback levels while a barge-in candidate is pending
+   */
+  private trackBargeInLevel(micLevel: number): void {
+    if (!this.bargeInTimer) {
+      return;
+    }
+    const playbackLevel = this.playbackAnalyzer.getLevel();
+    this.bargeInMicEnergy += micLevel * micLevel;
+    this.bargeInPlaybackEnergy += playbackLevel * playbackLevel;
+    this.bargeInSamples++;
+  }
+
+  /**
+   * Interrupt if the user is still talking and the mic isn't just hearing playback
+   */
+  private evaluateBargeIn(): void {
+    this.bargeInTimer = null;
+    if (
+      !this.bargeIn ||
+      !this.microphone.isSpeaking() ||
+      !this.playback.isActive()
+    ) {
+      return;
+    }
+
+    const samples = Math.max(1, this.bargeInSamples);
+    const micLevelDb = 10 * Math.log10(this.bargeInMicEnergy / samples + 1e-10);
+    const playbackLevelDb =
+      10 * Math.log10(this.bargeInPlaybackEnergy / samples + 1e-10);
+
+    // Echo of the assistant arrives well below the playback level
+    if (micLevelDb - playbackLevelDb < this.bargeIn.echoThresholdDb) {
+      return;
+    }
+
+    const { interruptedTurnId } = this.interruptTurn({
+      startNewTurn: this.bargeIn.startNewTurn,
+      notifyServer: true,
+      reason: "barge-in",
+    });
+    this.emit("barge-in", {
+      turnId: interruptedTurnId,
+      micLevelDb,
+      playbackLevelDb,
+    });
+  }
+
+  /**
+   * Speech started over playback: lower the playback volume
+   */
+  private startDucking(): void {
+    if (!this.ducking || this.isDucked || !this.playback.isActive()) {
+      return;
+    }
+    this.isDucked = true;
+    this.playback.setDuckLevel(this.ducking.level, this.ducking.attackMs);
+    this.emit("playback:ducked", true);
+  }
+
+  /**
+   * Speech ended (a backchannel, or the interrupt already happened): restore the volume
+   */
+  private releaseDucking(): void {
+    if (!this.ducking || !this.isDucked) {
+      return;
+    }
+    this.isDucked = false;
+    this.playback.setDuckLevel(1, this.ducking.releaseMs);
+    this.emit("playback:ducked", false);
+  }
+
+  /**
+   * Speech started: tell the server, then send the pre-roll and open the gate
+   */
+  private openSpeechGate(event: VADEvent): void {
+    if (!this.speechGating || this.speechGateOpen) {
+      return;
+    }
+    this.speechGateOpen = true;
+
+    if (this.websocket && !this.micMuted) {
+      if (this.speechGating.controlMessages && this.websocket.isConnected()) {
+        this.websocket.sendMessage({
+          type: "speech-start",
+          timeMs: event.timeMs,
+        });
+      }
+      for (const chunk of this.preRoll) {
+        this.websocket.sendAudio(chunk.data);
+      }
+    }
+    this.clearPreRoll();
+  }
+
+  /**
+   * Speech ended: close the gate and tell the server
+   */
+  private closeSpeechGate(event: VADEvent): void {
+    if (!this.speechGating || !this.speechGateOpen) {
+      return;
+    }
+    this.speechGateOpen = false;
+
+    if (
+      this.speechGating.controlMessages &&
+      !this.micMuted &&
+      this.websocket?.isConnected()
+    ) {
+      this.websocket.sendMessage({ type: "speech-end", timeMs: event.timeMs });
+    }
+  }
+
+  /**
+   * Keep the most recent preRollMs of audio while the gate is closed
+   */
+  private bufferPreRoll(data: ArrayBuffer): void {
+    const preRollMs = this.speechGating?.preRollMs ?? 0;
+    if (preRollMs <= 0) {
+      return;
+    }
+
+    const durationMs = this.getChunkDurationMs(data);
+    this.preRoll.push({ data, durationMs });
+    this.preRollDurationMs += durationMs;
+
+    while (
+      this.preRoll.length > 1 &&
+      this.preRollDurationMs - this.preRoll[0].durationMs >= preRollMs
+    ) {
+      this.preRollDurationMs -= this.preRoll.shift()!.durationMs;
+    }
+  }
+
+  private clearPreRoll(): void {
+    this.preRoll = [];
+    this.preRollDurationMs = 0;
+  }
+
+  /**
+   * Duration of an encoded microphone chunk in milliseconds
+   */
+  private getChunkDurationMs(data: ArrayBuffer): number {
+    const { codec, sampleRate } = this.microphone.getConfig();
+    switch (codec) {
+      case "opus":
+        return parseOpusFrames(data).reduce(
+          (sum, packet) => sum + getOpusPacketDuration(packet),
+          0
+        );
+      case "mulaw":
+      case "alaw":
+        return (data.byteLength / sampleRate) * 1000;
+      default:
+        return (data.byteLength / 2 / sampleRate) * 1000;
+    }
+  }
+
+  /**
+   * Microphone codec implied by the WebSocket send format, if it can be captured
+   */
+  private getCaptureCodec(
+    sendFormat: AudioFormat | undefined
+  ): CaptureCodec | undefined {
+    const codec = sendFormat?.codec;
+    return codec === "pcm" ||
+      codec === "opus" ||
+      codec === "mulaw" ||
+      codec === "alaw"
+      ? codec
+      : undefined;
+  }
+
   private setupEventForwarding(): void {
     // Microphone events
     this.microphone.on("start", () => this.emit("mic:start"));
@@ -649,12 +1198,34 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
       this.emit("mic:restarting");
     });
 
+    // Voice activity (also drives speech-gated streaming, barge-in and ducking)
+    this.microphone.on("speech-start", (event) => {
+      this.openSpeechGate(event);
+      this.emit("mic:speech-start", event);
+      this.startDucking();
+      this.startBargeIn();
+    });
+    this.microphone.on("speech-end", (event) => {
+      this.cancelBargeIn();
+      this.releaseDucking();
+      this.closeSpeechGate(event);
+      this.emit("mic:speech-end", event);
+    });
+    this.microphone.on("level", (level) => this.trackBargeInLevel(level));
+    this.microphone.on("echo-stats", (stats) =>
+      this.emit("mic:echo-stats", stats)
+    );
+
     // Forward audio data to WebSocket
     this.microphone.on("data", (data) => {
       this.emit("mic:data", data);
 
       if (this.websocket && !this.micMuted) {
-        this.websocket.sendAudio(data);
+        if (this.speechGating && !this.speechGateOpen) {
+          this.bufferPreRoll(data);
+        } else {
+          this.websocket.sendAudio(data);
+        }
       }
     });
 
@@ -666,6 +1237,15 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     this.playback.on("stop", () => this.emit("playback:stop"));
     this.playback.on("ended", () => this.emit("playback:ended"));
     this.playback.on("error", (error) => this.emit("playback:error", error));
+    this.playback.on("underrun", (stats) =>
+      this.emit("playback:underrun", stats)
+    );
+    this.playback.on("jitter-stats", (stats) =>
+      this.emit("playback:jitter-stats", stats)
+    );
+    this.playback.on("mark", (name, info) =>
+      this.emit("playback:mark", name, info)
+    );
 
     // Playback activity
     this.playbackAnalyzer.on("activity", (data) =>
@@ -708,14 +1288,21 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
     if (!this.websocket) return;
 
     this.websocket.on("connected", () => this.emit("ws:connected"));
-    this.websocket.on("disconnected", (code, reason) =>
-      this.emit("ws:disconnected", code, reason)
-    );
+    this.websocket.on("disconnected", (code, reason) => {
+      // Marks belong to the stream that just closed
+      this.markConnection++;
+      this.emit("ws:disconnected", code, reason);
+    });
     this.websocket.on("reconnecting", (attempt) =>
       this.emit("ws:reconnecting", attempt)
     );
     this.websocket.on("error", (error) => this.emit("ws:error", error));
     this.websocket.on("message", (data) => this.emit("ws:message", data));
+    this.websocket.on("latency", (rttMs) => this.emit("ws:latency", rttMs));
+    this.websocket.on("sequence-gap", (gap) =>
+      this.emit("ws:sequence-gap", gap)
+    );
+    this.websocket.on("protocol", (event) => this.handleProtocolEvent(event));
 
     // Auto-play received audio (with turn management)
     this.websocket.on("audio", async (data, turnId?: string) => {
@@ -729,14 +1316,60 @@ export class Chatdio extends TypedEventEmitter<ChatdioEvents> {
         return;
       }
 
+      // Marks that follow this audio wait until it's queued
+      const queued = this.playAudio(data, turnId);
+      this.lastQueuedAudio = queued.catch(() => {});
       try {
-        await this.playAudio(data, turnId);
+        await queued;
       } catch (error) {
         this.emit("playback:error", error as Error);
       }
     });
   }
 
+  /**
+   * Map turn events from the WebSocket protocol adapter to turn methods
+   */
+  private handleProtocolEvent(event: ProtocolEvent): void {
+    switch (event.type) {
+      case "turn-start":
+        // Audio of the previous turn still playing is left to finish
+        this.setCurrentTurn(event.turnId, {
+          clearBuffer: false,
+          emitEvent: true,
+        });
+        break;
+      case "turn-end":
+        if (this.currentTurnId === event.turnId) {
+          this.endTurn();
+        }
+        break;
+      case "interrupt":
+        this.interruptTurn({ startNewTurn: false, reason: "server" });
+        break;
+      case "mark": {
+        // Echoed once played, or right away when playback is interrupted
+        const { name, turnId } = event;
+        const connection = this.markConnection;
+        this.lastQueuedAudio
+          .then(() => this.playback.queueMark(name, turnId))
+          .then(() => {
+            if (connection === this.markConnection) {
+              this.sendMark(name);
+            }
+          })
+          .catch((error) => this.emit("ws:error", error as Error));
+        break;
+      }
+    }
+  }
+
+  private sendMark(name: string): void {
+    if (this.websocket?.isConnected()) {
+      this.websocket.sendMessage({ type: "mark", name });
+    }
+  }
+
   /**
    * Play audio received from WebSocket with turn validation
    * @param data - Audio data from WebSocket
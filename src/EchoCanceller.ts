@@ -0,0 +1,213 @@
+import type { AECConfig, EchoCancellerStats } from "./types";
+
+/**
+ * Acoustic echo canceller (time-domain NLMS)
+ *
+ * An adaptive FIR filter models the echo path from the reference signal (what
+ * the speakers play) to the microphone, and its echo estimate is subtracted
+ * from every mic sample. Each update is normalised by the reference energy in
+ * the filter window, so loud and quiet playback converge at the same speed.
+ *
+ * A Geigel detector pauses adaptation while the mic is louder than the echo
+ * path could make it (the user is talking), so near-end speech doesn't
+ * disturb the filter. Only the linear echo is removed; there is no residual
+ * echo suppression.
+ *
+ * The canceller is deterministic: it only depends on the samples it is fed,
+ * so it can be tested on recorded PCM without a browser.
+ *
+ * Note: this class is also injected into the capture AudioWorklet via
+ * toString(), so it must stay self-contained (no imports or module state).
+ */
+export class EchoCanceller {
+  private config: Required<AECConfig>;
+  private taps: number;
+  private delay: number;
+  private weights: Float32Array;
+  private regularization: number;
+
+  // Reference history, newest first and stored twice so the filter window
+  // is always contiguous
+  private history: Float32Array;
+  private historyLength: number;
+  private position = 0;
+  private windowEnergy = 0;
+
+  // Double-talk detection
+  private holdSamples: number;
+  private hold = 0;
+
+  // Smoothed powers while the reference is playing and the user is quiet
+  private referencePower = 0;
+  private micPower = 0;
+  private errorPower = 0;
+
+  /**
+   * @param sampleRate - Sample rate of the mic and reference signals
+   * @param config - Canceller configuration
+   */
+  constructor(sampleRate: number, config: AECConfig = {}) {
+    this.config = {
+      filterLengthMs: config.filterLengthMs ?? 100,
+      delayMs: config.delayMs ?? 0,
+      stepSize: config.stepSize ?? 0.5,
+      doubleTalkThreshold: config.doubleTalkThreshold ?? 0.5,
+    };
+
+    this.taps = Math.max(
+      1,
+      Math.round((sampleRate * this.config.filterLengthMs) / 1000)
+    );
+    this.delay = Math.max(
+      0,
+      Math.round((sampleRate * this.config.delayMs) / 1000)
+    );
+    this.weights = new Float32Array(this.taps);
+    // Don't chase the reference below about -60 dBFS
+    this.regularization = this.taps * 1e-6;
+
+    this.historyLength = this.taps + this.delay;
+    this.history = new Float32Array(this.historyLength * 2);
+    this.holdSamples = Math.round(sampleRate * 0.05);
+  }
+
+  /**
+   * Remove the echo of the reference from mic samples
+   * @param input - Mic samples
+   * @param reference - Reference samples played at the same time (missing
+   *   samples are treated as silence)
+   * @returns Mic samples with the echo estimate subtracted
+   */
+  process(input: Float32Array, reference: Float32Array): Float32Array {
+    const output = new Float32Array(input.length);
+    const weights = this.weights;
+    const history = this.history;
+    const length = this.historyLength;
+    const taps = this.taps;
+    const peak = this.getReferencePeak(reference);
+    const threshold = this.config.doubleTalkThreshold * peak;
+    // Nothing to learn from a (nearly) silent reference
+    const adapting = peak > 1e-3;
+
+    let referenceEnergy = 0;
+    let micEnergy = 0;
+    let errorEnergy = 0;
+    let doubleTalkSamples = 0;
+
+    for (let i = 0; i < input.length; i++) {
+      const x = i < reference.length ? reference[i] : 0;
+
+      // Newest sample first; the sample leaving the history leaves the window
+      this.position = this.position === 0 ? length - 1 : this.position - 1;
+      const leaving = history[this.position];
+      history[this.position] = x;
+      history[this.position + length] = x;
+      const entering = history[this.position + this.delay];
+      this.windowEnergy = Math.max(
+        0,
+        this.windowEnergy + entering * entering - leaving * leaving
+      );
+
+      const base = this.position + this.delay;
+      let estimate = 0;
+      if (peak > 0) {
+        for (let k = 0; k < taps; k++) {
+          estimate += weights[k] * history[base + k];
+        }
+      }
+
+      const mic = input[i];
+      const error = mic - estimate;
+      output[i] = error;
+
+      // Geigel: louder than the echo can be, so the user is talking
+      if (adapting && Math.abs(mic) > threshold) {
+        this.hold = this.holdSamples;
+      }
+      if (this.hold > 0) {
+        this.hold--;
+        doubleTalkSamples++;
+      } else if (adapting) {
+        const gain =
+          (this.config.stepSize * error) /
+          (this.windowEnergy + this.regularization);
+        for (let k = 0; k < taps; k++) {
+          weights[k] += gain * history[base + k];
+        }
+      }
+
+      referenceEnergy += entering * entering;
+      micEnergy += mic * mic;
+      errorEnergy += error * error;
+    }
+
+    if (input.length > 0) {
+      this.updateStats(
+        referenceEnergy / input.length,
+        micEnergy / input.length,
+        errorEnergy / input.length,
+        doubleTalkSamples > 0
+      );
+    }
+
+    return output;
+  }
+
+  /**
+   * Get echo return loss and enhancement (0 until playback has been heard)
+   */
+  getStats(): EchoCancellerStats {
+    const toDb = (ratio: number) =>
+      ratio > 0 && isFinite(ratio) ? 10 * Math.log10(ratio) : 0;
+    return {
+      erlDb: this.micPower > 0 ? toDb(this.referencePower / this.micPower) : 0,
+      erleDb: this.errorPower > 0 ? toDb(this.micPower / this.errorPower) : 0,
+      doubleTalk: this.hold > 0,
+    };
+  }
+
+  /**
+   * Forget the echo path and all history (e.g. after a device change)
+   */
+  reset(): void {
+    this.weights.fill(0);
+    this.history.fill(0);
+    this.position = 0;
+    this.windowEnergy = 0;
+    this.hold = 0;
+    this.referencePower = 0;
+    this.micPower = 0;
+    this.errorPower = 0;
+  }
+
+  /**
+   * Loudest reference sample that can still be echoing in this block
+   */
+  private getReferencePeak(reference: Float32Array): number {
+    let peak = 0;
+    const end = this.position + this.historyLength;
+    for (let i = this.position; i < end; i++) {
+      peak = Math.max(peak, Math.abs(this.history[i]));
+    }
+    for (let i = 0; i < reference.length; i++) {
+      peak = Math.max(peak, Math.abs(reference[i]));
+    }
+    return peak;
+  }
+
+  private updateStats(
+    reference: number,
+    mic: number,
+    error: number,
+    doubleTalk: boolean
+  ): void {
+    // Only measure while there is echo to cancel (reference above -60 dBFS)
+    if (doubleTalk || reference < 1e-6) {
+      return;
+    }
+    const smoothing = 0.05;
+    this.referencePower += (reference - this.referencePower) * smoothing;
+    this.micPower += (mic - this.micPower) * smoothing;
+    this.errorPower += (error - this.errorPower) * smoothing;
+  }
+}
@@ -0,0 +1,232 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./utils";
+import type {
+  AudioFormat,
+  ProtocolAdapter,
+  ProtocolEvent,
+  ProtocolPayload,
+} from "./types";
+
+/**
+ * Gemini Live adapter configuration
+ */
+export interface GeminiLiveConfig {
+  /** Model for the setup message (default: "models/gemini-2.0-flash-live-001") */
+  model?: string;
+  /** Extra setup fields (generationConfig, systemInstruction, tools, ...) */
+  setup?: Record<string, unknown>;
+  /**
+   * Turn the server's activity detection off and mark user speech with
+   * Chatdio's own VAD instead: speech-start and speech-end become
+   * activityStart and activityEnd (default: false)
+   */
+  clientActivityDetection?: boolean;
+}
+
+interface InlineData {
+  mimeType?: string;
+  data?: string;
+}
+
+interface LiveServerMessage {
+  setupComplete?: object;
+  serverContent?: {
+    modelTurn?: { parts?: { inlineData?: InlineData; text?: string }[] };
+    interrupted?: boolean;
+    turnComplete?: boolean;
+    generationComplete?: boolean;
+    [key: string]: unknown;
+  };
+  error?: { message?: string; code?: number | string; status?: string };
+  [key: string]: unknown;
+}
+
+const PCM16_16K: AudioFormat = {
+  sampleRate: 16000,
+  bitDepth: 16,
+  channels: 1,
+  codec: "pcm",
+};
+
+const PCM16_24K: AudioFormat = {
+  sampleRate: 24000,
+  bitDepth: 16,
+  channels: 1,
+  codec: "pcm",
+};
+
+// serverContent fields the adapter turns into events itself
+const HANDLED_CONTENT = new Set([
+  "modelTurn",
+  "interrupted",
+  "turnComplete",
+  "generationComplete",
+]);
+
+/**
+ * Protocol adapter for Gemini Live-style "setup + realtimeInput" protocols
+ *
+ * - A setup message is sent when the socket opens
+ * - Captured audio is sent as realtimeInput mediaChunks (base64 PCM16 with
+ *   an "audio/pcm;rate=16000" mime type)
+ * - serverContent inlineData audio plays; the protocol has no item IDs, so
+ *   each model turn gets a generated turn ID
+ * - serverContent.interrupted interrupts playback, turnComplete ends the turn
+ *
+ * The server cancels generation itself when it hears the user, so a client
+ * interrupt sends nothing. Chatdio's own speech-start/speech-end and ping
+ * messages are dropped (unless clientActivityDetection is on); any other
+ * message passes through. Server messages may arrive as binary frames
+ * holding JSON. Messages without a mapping (setupComplete, toolCall,
+ * transcriptions, text parts, ...) are emitted as messages.
+ */
+export class GeminiLiveAdapter implements ProtocolAdapter {
+  readonly name = "gemini-live";
+  readonly sendFormat = PCM16_16K;
+  readonly receiveFormat = PCM16_24K;
+  private config: Required<GeminiLiveConfig>;
+  private decoder = new TextDecoder();
+
+  // Turn being received, and a counter for generating turn IDs
+  private turnId: string | null = null;
+  private turnCount = 0;
+
+  constructor(config: GeminiLiveConfig = {}) {
+    this.config = {
+      model: config.model ?? "models/gemini-2.0-flash-live-001",
+      setup: config.setup ?? {},
+      clientActivityDetection: config.clientActivityDetection ?? false,
+    };
+  }
+
+  open(): ProtocolPayload[] {
+    this.turnId = null;
+
+    const setup: Record<string, unknown> = {
+      generationConfig: { responseModalities: ["AUDIO"] },
+      ...this.config.setup,
+      model: this.config.model,
+    };
+    if (this.config.clientActivityDetection) {
+      const input = (setup.realtimeInputConfig ?? {}) as Record<
+        string,
+        unknown
+      >;
+      setup.realtimeInputConfig = {
+        ...input,
+        automaticActivityDetection: { disabled: true },
+      };
+    }
+    return [{ setup }];
+  }
+
+  wrapAudio(data: ArrayBuffer): ProtocolPayload {
+    return {
+      realtimeInput: {
+        mediaChunks: [
+          {
+            mimeType: `audio/pcm;rate=${this.sendFormat.sampleRate}`,
+            data: arrayBufferToBase64(data),
+          },
+        ],
+      },
+    };
+  }
+
+  wrapMessage(message: unknown): ProtocolPayload[] {
+    if (typeof message !== "object" || message === null) {
+      return [message as ProtocolPayload];
+    }
+
+    switch ((message as { type?: string }).type) {
+      case "speech-start":
+        return this.config.clientActivityDetection
+          ? [{ realtimeInput: { activityStart: {} } }]
+          : [];
+      case "speech-end":
+        return this.config.clientActivityDetection
+          ? [{ realtimeInput: { activityEnd: {} } }]
+          : [];
+      case "interrupt":
+      case "ping":
+        return [];
+      default:
+        return [message];
+    }
+  }
+
+  parseMessage(data: string | ArrayBuffer): ProtocolEvent[] {
+    const text = typeof data === "string" ? data : this.decoder.decode(data);
+
+    let message: LiveServerMessage;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return [{ type: "message", data }];
+    }
+    if (typeof message !== "object" || message === null) {
+      return [{ type: "message", data: message }];
+    }
+
+    if (message.error) {
+      return [
+        {
+          type: "error",
+          message: message.error.message ?? "Live API error",
+          code:
+            message.error.status ??
+            (message.error.code !== undefined
+              ? String(message.error.code)
+              : undefined),
+        },
+      ];
+    }
+
+    if (message.serverContent) {
+      return this.handleServerContent(message);
+    }
+
+    return [{ type: "message", data: message }];
+  }
+
+  private handleServerContent(message: LiveServerMessage): ProtocolEvent[] {
+    const content = message.serverContent!;
+    const events: ProtocolEvent[] = [];
+    let unhandled = Object.keys(content).some(
+      (key) => !HANDLED_CONTENT.has(key)
+    );
+
+    for (const part of content.modelTurn?.parts ?? []) {
+      const inline = part.inlineData;
+      if (!inline?.data || !inline.mimeType?.startsWith("audio/pcm")) {
+        unhandled = true;
+        continue;
+      }
+      if (!this.turnId) {
+        this.turnId = `gemini-turn-${++this.turnCount}`;
+        events.push({ type: "turn-start", turnId: this.turnId });
+      }
+      events.push({
+        type: "audio",
+        data: base64ToArrayBuffer(inline.data),
+        turnId: this.turnId,
+      });
+    }
+
+    if (content.interrupted) {
+      // The server stopped generating; the next audio is a new turn
+      this.turnId = null;
+      events.push({ type: "interrupt" });
+    }
+
+    if (content.turnComplete && this.turnId) {
+      events.push({ type: "turn-end", turnId: this.turnId });
+      this.turnId = null;
+    }
+
+    // Transcriptions, text parts and the like are left to the application
+    if (unhandled) {
+      events.push({ type: "message", data: message });
+    }
+    return events;
+  }
+}
@@ -0,0 +1,136 @@
+import type { JitterBufferConfig, JitterBufferStats } from "./types";
+
+/**
+ * Adaptive jitter buffer depth estimator
+ *
+ * Measures how late each chunk arrives compared to a real-time schedule
+ * anchored at the earliest recent arrival (chunks arriving early simply
+ * re-anchor the schedule, so faster-than-real-time streaming is not jitter).
+ * The target depth jumps up to cover the worst recent lateness and decays
+ * slowly back down when the network is steady.
+ *
+ * Times are passed in by the caller, so the estimator is deterministic.
+ * AudioPlayback owns scheduling, underrun detection and concealment.
+ */
+export class JitterBuffer {
+  private config: Required<JitterBufferConfig>;
+
+  // Arrival schedule for the current stream (seconds)
+  private anchor: number | null = null;
+  private mediaTime = 0;
+  private lastLateness = 0;
+
+  // Estimates (seconds)
+  private jitter = 0;
+  private targetDelay: number;
+
+  // Counters
+  private underruns = 0;
+  private concealed = 0;
+
+  constructor(config: JitterBufferConfig = {}) {
+    this.config = {
+      minDelayMs: config.minDelayMs ?? 40,
+      maxDelayMs: config.maxDelayMs ?? 500,
+      fadeMs: config.fadeMs ?? 5,
+      concealmentMs: config.concealmentMs ?? 30,
+    };
+    this.targetDelay = this.config.minDelayMs / 1000;
+  }
+
+  /**
+   * Get the resolved configuration
+   */
+  getConfig(): Required<JitterBufferConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Record the arrival of a chunk
+   * @param arrivalTime - Wall-clock arrival time in seconds
+   * @param duration - Media duration of the chunk in seconds
+   */
+  update(arrivalTime: number, duration: number): void {
+    if (this.anchor === null) {
+      this.anchor = arrivalTime;
+      this.mediaTime = 0;
+      this.lastLateness = 0;
+    }
+
+    let lateness = arrivalTime - (this.anchor + this.mediaTime);
+    if (lateness < 0) {
+      // Ahead of real time: move the schedule instead of counting it
+      this.anchor += lateness;
+      lateness = 0;
+    }
+    this.mediaTime += duration;
+
+    // Slowly forget the old schedule so a one-off delay isn't counted forever
+    this.anchor += lateness * 0.05;
+
+    // RFC 3550 style smoothing of the lateness variation
+    this.jitter += (Math.abs(lateness - this.lastLateness) - this.jitter) / 16;
+    this.lastLateness = lateness;
+
+    // Grow immediately to cover this chunk, shrink slowly when steady
+    const needed = lateness + 2 * this.jitter;
+    if (needed > this.targetDelay) {
+      this.targetDelay = needed;
+    } else {
+      this.targetDelay += (needed - this.targetDelay) * 0.02;
+    }
+    this.clampTarget();
+  }
+
+  /**
+   * Start measuring a new stream (e.g. a new turn after silence)
+   * Estimates carry over; only the arrival schedule is reset.
+   */
+  startStream(): void {
+    this.anchor = null;
+  }
+
+  /**
+   * Record that playback ran dry for gap seconds before new audio arrived
+   */
+  recordUnderrun(gap: number): void {
+    this.underruns++;
+    this.targetDelay += gap;
+    this.clampTarget();
+  }
+
+  /**
+   * Record concealment audio played in place of missing audio
+   */
+  recordConcealment(duration: number): void {
+    this.concealed += duration;
+  }
+
+  /**
+   * Get the buffer depth playback should (re)start with, in seconds
+   */
+  getTargetDelay(): number {
+    return this.targetDelay;
+  }
+
+  /**
+   * Get statistics
+   * @param buffered - Audio currently scheduled ahead of the playhead, in seconds
+   */
+  getStats(buffered: number): JitterBufferStats {
+    return {
+      jitterMs: this.jitter * 1000,
+      targetDelayMs: this.targetDelay * 1000,
+      bufferedMs: Math.max(0, buffered) * 1000,
+      underruns: this.underruns,
+      concealedMs: this.concealed * 1000,
+    };
+  }
+
+  private clampTarget(): void {
+    this.targetDelay = Math.max(
+      this.config.minDelayMs / 1000,
+      Math.min(this.config.maxDelayMs / 1000, this.targetDelay)
+    );
+  }
+}
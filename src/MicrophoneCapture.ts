@@ -1,11 +1,37 @@
 import { TypedEventEmitter } from "./EventEmitter";
 import { createWorkletBlobUrl } from "./audio-worklet-processor";
-import type { MicrophoneConfig, SampleRate, BitDepth } from "./types";
+import {
+  OpusEncoder,
+  getOpusPacketDuration,
+  parseOpusFrames,
+} from "./OpusEncoder";
+import { Resampler } from "./Resampler";
+import { CapturePipeline } from "./CapturePipeline";
+import { AudioFormatConverter } from "./AudioFormatConverter";
+import { VoiceActivityDetector } from "./VoiceActivityDetector";
+import { EchoCanceller } from "./EchoCanceller";
+import { createAudioContext } from "./utils";
+import type {
+  MicrophoneConfig,
+  SampleRate,
+  CaptureEncoding,
+  VADConfig,
+  VADEvent,
+  AECConfig,
+  EchoCancellerStats,
+} from "./types";
+
+export { AudioFormatConverter };
+
+// Contexts the processor module has been added to (a processor name can only
+// be registered once per context, and contexts may be shared)
+const loadedContexts = new WeakSet<BaseAudioContext>();
 
 interface MicrophoneCaptureEvents {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: (...args: any[]) => void;
-  data: (data: ArrayBuffer) => void;
+  /** time is the AudioContext time of the chunk's first sample */
+  data: (data: ArrayBuffer, time: number) => void;
   start: () => void;
   stop: () => void;
   error: (error: Error) => void;
@@ -13,6 +39,9 @@ interface MicrophoneCaptureEvents {
   "device-lost": () => void;
   "device-changed": (deviceId: string) => void;
   restarting: () => void;
+  "speech-start": (event: VADEvent) => void;
+  "speech-end": (event: VADEvent) => void;
+  "echo-stats": (stats: EchoCancellerStats) => void;
 }
 
 /**
@@ -22,6 +51,7 @@ interface MicrophoneCaptureEvents {
  */
 export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents> {
   private audioContext: AudioContext | null = null;
+  private sharedContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private sourceNode: MediaStreamAudioSourceNode | null = null;
   private workletNode: AudioWorkletNode | null = null;
@@ -31,10 +61,33 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
   private config: Required<MicrophoneConfig>;
   private useWorklet = false;
   private workletBlobUrl: string | null = null;
+  private opusEncoder: OpusEncoder | null = null;
 
   // For resampling
   private inputSampleRate: number = 48000;
 
+  // Main-thread pipeline for the ScriptProcessorNode fallback
+  private pipeline: CapturePipeline | null = null;
+
+  // Voice activity state (detection runs in the capture pipeline)
+  private speaking = false;
+  // Speech events wait for the audio carrying them: the pipeline analyzes a
+  // block before emitting its chunks, and Opus packets come out later
+  private blockVADEvents: VADEvent[] = [];
+  private pendingVADEvents: { event: VADEvent; samples: number }[] = [];
+
+  // AudioContext time of the first captured sample, and output samples since
+  private captureStartTime = 0;
+  private captureStarted = false;
+  private emittedSamples = 0;
+
+  // Software echo cancellation (runs in the capture pipeline)
+  private echoReference: AudioNode | null = null;
+  private referenceMerger: ChannelMergerNode | null = null;
+  private echoCanceller: EchoCanceller | null = null; // ScriptProcessorNode fallback
+  private echoStats: EchoCancellerStats | null = null;
+  private echoStatsSamples = 0;
+
   // Auto-restart on device issues
   private autoRestart = true;
   private restartAttempts = 0;
@@ -50,6 +103,12 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
       autoGainControl: config.autoGainControl ?? true,
       deviceId: config.deviceId ?? "",
       bufferSize: config.bufferSize ?? 2048,
+      frameDurationMs: config.frameDurationMs ?? 0,
+      codec: config.codec ?? "pcm",
+      opusBitrate: config.opusBitrate ?? 24000,
+      resampleQuality: config.resampleQuality ?? "medium",
+      vad: config.vad ?? false,
+      aec: config.aec ?? false,
     };
   }
 
@@ -60,6 +119,34 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     this.autoRestart = enabled;
   }
 
+  /**
+   * Use an existing AudioContext (e.g. one shared with playback)
+   * Takes effect on the next start(). A shared context is never closed by
+   * capture, including when it restarts after a device change; pass null to
+   * create one again.
+   */
+  setAudioContext(audioContext: AudioContext | null): void {
+    this.sharedContext = audioContext;
+  }
+
+  /**
+   * Set the signal software echo cancellation removes, e.g. the playback
+   * output (AudioPlayback.getOutputNode()). It must belong to the capture
+   * AudioContext, and is only used when aec is enabled.
+   */
+  setEchoReference(node: AudioNode | null): void {
+    this.disconnectEchoReference();
+    this.echoReference = node;
+    this.connectEchoReference();
+  }
+
+  /**
+   * Get the latest echo canceller statistics (null unless aec is running)
+   */
+  getEchoStats(): EchoCancellerStats | null {
+    return this.echoStats;
+  }
+
   /**
    * Check if AudioWorklet is supported
    */
@@ -86,18 +173,14 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
 
   private async startInternal(): Promise<void> {
     try {
-      // Create AudioContext (handle Safari prefix)
-      const AudioContextClass =
-        window.AudioContext ||
-        (window as unknown as { webkitAudioContext: typeof AudioContext })
-          .webkitAudioContext;
-      if (!AudioContextClass) {
-        throw new Error("Web Audio API not supported");
-      }
-
       // Create context - Safari requires this to happen in response to user gesture
-      this.audioContext = new AudioContextClass();
+      this.audioContext = this.sharedContext ?? createAudioContext();
       this.inputSampleRate = this.audioContext.sampleRate;
+      this.captureStartTime = this.audioContext.currentTime;
+      this.captureStarted = false;
+      this.emittedSamples = 0;
+      this.blockVADEvents = [];
+      this.pendingVADEvents = [];
 
       // Resume context if suspended (required by browsers after autoplay policy)
       if (this.audioContext.state === "suspended") {
@@ -127,6 +210,11 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
         audioTrack.onmute = () => this.handleTrackMuted();
       }
 
+      // Set up the Opus encoder before any audio flows
+      if (this.config.codec === "opus") {
+        await this.setupOpusEncoder();
+      }
+
       // Create audio nodes
       this.sourceNode = this.audioContext.createMediaStreamSource(
         this.mediaStream
@@ -175,25 +263,48 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     }
 
     // Load the worklet module
-    await this.audioContext.audioWorklet.addModule(this.workletBlobUrl);
+    if (!loadedContexts.has(this.audioContext)) {
+      await this.audioContext.audioWorklet.addModule(this.workletBlobUrl);
+      loadedContexts.add(this.audioContext);
+    }
 
-    // Create worklet node
+    // Create worklet node (resampling and encoding happen in the worklet)
+    const aec = this.getAECConfig();
     this.workletNode = new AudioWorkletNode(
       this.audioContext,
-      "microphone-processor"
+      "microphone-processor",
+      {
+        // The second input carries the echo reference
+        numberOfInputs: aec ? 2 : 1,
+        processorOptions: {
+          outputSampleRate: this.config.sampleRate,
+          encoding: this.getCaptureEncoding(),
+          resampleQuality: this.config.resampleQuality,
+          // With fixed frames, process every render quantum for minimum latency
+          inputChunkSize:
+            this.getOutputFrameSize() > 0 ? 128 : this.config.bufferSize,
+          outputFrameSize: this.getOutputFrameSize(),
+          vad: this.getVADConfig(),
+          aec,
+        },
+      }
     );
 
     // Handle messages from worklet
     this.workletNode.port.onmessage = (event) => {
       if (!this.isCapturing) return;
 
-      if (event.data.type === "audio") {
-        const floatData = event.data.buffer as Float32Array;
-        const resampledData = this.resample(floatData);
-        const pcmData = this.floatTo16BitPCM(resampledData);
-        this.emit("data", pcmData.buffer as ArrayBuffer);
+      if (event.data.type === "start") {
+        this.captureStartTime = event.data.time as number;
+      } else if (event.data.type === "audio") {
+        this.emitChunk(event.data.buffer as ArrayBuffer);
       } else if (event.data.type === "level") {
         this.emit("level", event.data.level);
+      } else if (event.data.type === "vad") {
+        // Posted after the audio of the block it was detected in
+        this.queueVADEvent(event.data.event as VADEvent);
+      } else if (event.data.type === "aec") {
+        this.handleEchoStats(event.data.stats as EchoCancellerStats);
       }
     };
 
@@ -202,6 +313,7 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     this.analyzerNode.connect(this.workletNode);
     // Connect to destination to keep processing active
     this.workletNode.connect(this.audioContext.destination);
+    this.connectEchoReference();
   }
 
   private setupScriptProcessorNode(): void {
@@ -210,18 +322,86 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     }
 
     // Create processor node (deprecated but has wider support)
+    const aec = this.getAECConfig();
     this.processorNode = this.audioContext.createScriptProcessor(
       this.config.bufferSize,
-      1, // mono input
+      aec ? 2 : 1, // mono input, plus the echo reference
       1 // mono output
     );
 
+    const vadConfig = this.getVADConfig();
+    const vad = vadConfig
+      ? new VoiceActivityDetector(this.config.sampleRate, vadConfig)
+      : null;
+    const resampleRequired = this.inputSampleRate !== this.config.sampleRate;
+    this.echoCanceller = aec
+      ? new EchoCanceller(this.config.sampleRate, aec)
+      : null;
+
+    this.pipeline = new CapturePipeline(
+      {
+        inputChunkSize: this.config.bufferSize,
+        outputFrameSize: this.getOutputFrameSize(),
+      },
+      {
+        resampler: resampleRequired
+          ? new Resampler(
+              this.inputSampleRate,
+              this.config.sampleRate,
+              this.config.resampleQuality
+            )
+          : null,
+        echoCanceller: this.echoCanceller,
+        referenceResampler:
+          aec && resampleRequired
+            ? new Resampler(
+                this.inputSampleRate,
+                this.config.sampleRate,
+                this.config.resampleQuality
+              )
+            : null,
+        encode: (samples) =>
+          AudioFormatConverter.encode(samples, this.getCaptureEncoding()),
+        analyze: vad
+          ? (samples) => this.blockVADEvents.push(...vad.process(samples))
+          : undefined,
+      }
+    );
+
     this.processorNode.onaudioprocess = this.handleAudioProcess;
 
     // Connect nodes: source -> analyzer -> processor -> destination (muted)
     this.sourceNode.connect(this.analyzerNode);
-    this.analyzerNode.connect(this.processorNode);
+    if (aec) {
+      // Mic on channel 0, echo reference on channel 1
+      this.referenceMerger = this.audioContext.createChannelMerger(2);
+      this.analyzerNode.connect(this.referenceMerger, 0, 0);
+      this.referenceMerger.connect(this.processorNode);
+    } else {
+      this.analyzerNode.connect(this.processorNode);
+    }
     this.processorNode.connect(this.audioContext.destination);
+    this.connectEchoReference();
+  }
+
+  private async setupOpusEncoder(): Promise<void> {
+    this.opusEncoder = new OpusEncoder({
+      sampleRate: this.config.sampleRate,
+      channels: 1,
+      bitrate: this.config.opusBitrate,
+    });
+    this.opusEncoder.on("data", (packet, timestamp) => {
+      if (this.isCapturing) {
+        this.emit("data", packet, this.captureStartTime + timestamp);
+        const durationMs = parseOpusFrames(packet).reduce(
+          (sum, frame) => sum + getOpusPacketDuration(frame),
+          0
+        );
+        this.releaseVADEvents(timestamp + durationMs / 1000);
+      }
+    });
+    this.opusEncoder.on("error", (error) => this.emit("error", error));
+    await this.opusEncoder.initialize();
   }
 
   private handleTrackEnded = (): void => {
@@ -299,6 +479,13 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     return this.isCapturing;
   }
 
+  /**
+   * Check if the voice activity detector currently hears speech
+   */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
   /**
    * Change the input device
    * Will seamlessly restart capture with new device
@@ -330,6 +517,14 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     const needsRestart =
       this.isCapturing &&
       (config.deviceId !== undefined ||
+        config.codec !== undefined ||
+        config.sampleRate !== undefined ||
+        config.resampleQuality !== undefined ||
+        config.bufferSize !== undefined ||
+        config.frameDurationMs !== undefined ||
+        config.vad !== undefined ||
+        config.aec !== undefined ||
+        config.opusBitrate !== undefined ||
         config.echoCancellation !== undefined ||
         config.noiseSuppression !== undefined ||
         config.autoGainControl !== undefined);
@@ -364,6 +559,14 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     return this.config.sampleRate;
   }
 
+  /**
+   * Get the AudioContext time the first captured sample was recorded at
+   * Chunk times on the data event count on from it.
+   */
+  getCaptureStartTime(): number {
+    return this.captureStartTime;
+  }
+
   /**
    * Check if using AudioWorklet (vs deprecated ScriptProcessorNode)
    */
@@ -374,67 +577,202 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
   private handleAudioProcess = (event: AudioProcessingEvent): void => {
     if (!this.isCapturing) return;
 
+    if (!this.captureStarted && this.audioContext) {
+      this.captureStarted = true;
+      this.captureStartTime =
+        this.audioContext.currentTime - event.inputBuffer.duration;
+    }
+
     const inputData = event.inputBuffer.getChannelData(0);
+    const reference =
+      event.inputBuffer.numberOfChannels > 1
+        ? event.inputBuffer.getChannelData(1)
+        : undefined;
 
     // Calculate and emit audio level
     const level = this.calculateLevel(inputData);
     this.emit("level", level);
 
-    // Resample if necessary
-    const outputData = this.resample(inputData);
-
-    // Convert to Int16 (16-bit PCM) - most common format for speech
-    const pcmData = this.floatTo16BitPCM(outputData);
+    // Resample and encode (same pipeline the worklet runs)
+    for (const chunk of this.pipeline?.push(inputData, reference) ?? []) {
+      this.emitChunk(chunk);
+    }
+    const events = this.blockVADEvents;
+    this.blockVADEvents = [];
+    for (const event of events) {
+      this.queueVADEvent(event);
+    }
 
-    this.emit("data", pcmData.buffer as ArrayBuffer);
+    // Echo canceller statistics roughly every 250 ms, like the worklet
+    if (this.echoCanceller) {
+      this.echoStatsSamples += inputData.length;
+      if (this.echoStatsSamples >= this.inputSampleRate / 4) {
+        this.echoStatsSamples = 0;
+        this.handleEchoStats(this.echoCanceller.getStats());
+      }
+    }
   };
 
-  private calculateLevel(data: Float32Array): number {
-    let sum = 0;
-    for (let i = 0; i < data.length; i++) {
-      sum += data[i] * data[i];
+  /**
+   * Number of output-rate samples per frame, or 0 for bufferSize-sized chunks
+   */
+  private getOutputFrameSize(): number {
+    if (this.config.frameDurationMs <= 0) {
+      return 0;
     }
-    return Math.sqrt(sum / data.length);
+    return Math.round(
+      (this.config.sampleRate * this.config.frameDurationMs) / 1000
+    );
   }
 
-  private resample(input: Float32Array): Float32Array {
-    const inputRate = this.inputSampleRate;
-    const outputRate = this.config.sampleRate;
+  /**
+   * Detector settings for the capture pipeline, or null when VAD is disabled
+   */
+  private getVADConfig(): VADConfig | null {
+    if (this.config.vad === false) {
+      return null;
+    }
+    return this.config.vad === true ? {} : { ...this.config.vad };
+  }
 
-    if (inputRate === outputRate) {
-      return input;
+  private getAECConfig(): AECConfig | null {
+    if (this.config.aec === false) {
+      return null;
     }
+    return this.config.aec === true ? {} : { ...this.config.aec };
+  }
 
-    // Linear interpolation resampling
-    const ratio = inputRate / outputRate;
-    const outputLength = Math.floor(input.length / ratio);
-    const output = new Float32Array(outputLength);
+  private handleEchoStats(stats: EchoCancellerStats): void {
+    this.echoStats = stats;
+    this.emit("echo-stats", stats);
+  }
 
-    for (let i = 0; i < outputLength; i++) {
-      const srcIndex = i * ratio;
-      const srcIndexFloor = Math.floor(srcIndex);
-      const srcIndexCeil = Math.min(srcIndexFloor + 1, input.length - 1);
-      const t = srcIndex - srcIndexFloor;
+  /**
+   * Feed the echo reference into the capture node's reference input
+   */
+  private connectEchoReference(): void {
+    const node = this.echoReference;
+    const target = this.workletNode ?? this.referenceMerger;
+    if (!node || !target || !this.getAECConfig()) {
+      return;
+    }
+    if (node.context !== target.context) {
+      console.warn(
+        "Echo reference belongs to another AudioContext, echo cancellation has no reference"
+      );
+      return;
+    }
+    node.connect(target, 0, 1);
+  }
 
-      // Linear interpolation
-      output[i] = input[srcIndexFloor] * (1 - t) + input[srcIndexCeil] * t;
+  private disconnectEchoReference(): void {
+    const node = this.echoReference;
+    const target = this.workletNode ?? this.referenceMerger;
+    if (!node || !target || node.context !== target.context) {
+      return;
     }
+    try {
+      node.disconnect(target);
+    } catch {
+      // Not connected
+    }
+  }
 
-    return output;
+  /**
+   * Emit a speech event once the audio it was detected in has been emitted
+   */
+  private queueVADEvent(event: VADEvent): void {
+    if (this.opusEncoder) {
+      this.pendingVADEvents.push({ event, samples: this.emittedSamples });
+    } else {
+      this.handleVADEvent(event);
+    }
   }
 
-  private floatTo16BitPCM(input: Float32Array): Int16Array {
-    const output = new Int16Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      // Clamp to [-1, 1]
-      const s = Math.max(-1, Math.min(1, input[i]));
-      // Convert to 16-bit signed integer
-      output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  /**
+   * Emit the speech events whose audio the Opus encoder has now output
+   * @param encodedSeconds - End of the last packet in the encoded stream
+   */
+  private releaseVADEvents(encodedSeconds: number): void {
+    const encoded = Math.round(encodedSeconds * this.config.sampleRate);
+    while (
+      this.pendingVADEvents.length > 0 &&
+      this.pendingVADEvents[0].samples <= encoded
+    ) {
+      this.handleVADEvent(this.pendingVADEvents.shift()!.event);
+    }
+  }
+
+  private handleVADEvent(event: VADEvent): void {
+    this.speaking = event.type === "speech-start";
+    this.emit(event.type, event);
+  }
+
+  /**
+   * Sample encoding the pipeline should produce for the configured codec
+   */
+  private getCaptureEncoding(): CaptureEncoding {
+    switch (this.config.codec) {
+      case "opus":
+        // Float samples are handed to the Opus encoder on the main thread
+        return "float32";
+      case "mulaw":
+      case "alaw":
+        return this.config.codec;
+      default:
+        // 16-bit PCM - most common format for speech
+        return "pcm16";
+    }
+  }
+
+  /**
+   * Emit a chunk produced by the capture pipeline
+   */
+  private emitChunk(chunk: ArrayBuffer): void {
+    if (this.opusEncoder) {
+      // Encoded packets are emitted asynchronously by the encoder
+      this.emittedSamples += chunk.byteLength / 4;
+      this.opusEncoder.encode(new Float32Array(chunk));
+      return;
+    }
+
+    const time =
+      this.captureStartTime + this.emittedSamples / this.config.sampleRate;
+    const bytesPerSample = this.config.codec === "pcm" ? 2 : 1;
+    this.emittedSamples += chunk.byteLength / bytesPerSample;
+    this.emit("data", chunk, time);
+  }
+
+  private calculateLevel(data: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i] * data[i];
     }
-    return output;
+    return Math.sqrt(sum / data.length);
   }
 
   private cleanupInternal(): void {
+    // The detector is recreated with the pipeline, so close any open utterance
+    this.blockVADEvents = [];
+    this.pendingVADEvents = [];
+    if (this.speaking) {
+      const elapsed = this.audioContext
+        ? this.audioContext.currentTime - this.captureStartTime
+        : 0;
+      this.handleVADEvent({
+        type: "speech-end",
+        timeMs: Math.max(0, elapsed * 1000),
+      });
+    }
+
+    if (this.opusEncoder) {
+      this.opusEncoder.removeAllListeners();
+      this.opusEncoder.close();
+      this.opusEncoder = null;
+    }
+
+    this.disconnectEchoReference();
+
     if (this.workletNode) {
       this.workletNode.port.onmessage = null;
       this.workletNode.disconnect();
@@ -447,6 +785,11 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
       this.processorNode = null;
     }
 
+    if (this.referenceMerger) {
+      this.referenceMerger.disconnect();
+      this.referenceMerger = null;
+    }
+
     if (this.analyzerNode) {
       this.analyzerNode.disconnect();
       this.analyzerNode = null;
@@ -466,12 +809,20 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
       this.mediaStream = null;
     }
 
-    if (this.audioContext && this.audioContext.state !== "closed") {
+    if (
+      this.audioContext &&
+      this.audioContext !== this.sharedContext &&
+      this.audioContext.state !== "closed"
+    ) {
       this.audioContext.close().catch(() => {
         // Ignore close errors
       });
     }
     this.audioContext = null;
+    this.pipeline = null;
+    this.echoCanceller = null;
+    this.echoStats = null;
+    this.echoStatsSamples = 0;
   }
 
   private cleanup(): void {
@@ -484,127 +835,3 @@ export class MicrophoneCapture extends TypedEventEmitter<MicrophoneCaptureEvents
     }
   }
 }
-
-/**
- * Utility to convert between audio formats
- */
-export class AudioFormatConverter {
-  /**
-   * Convert Float32Array to specified bit depth
-   */
-  static floatToPCM(input: Float32Array, bitDepth: BitDepth): ArrayBuffer {
-    switch (bitDepth) {
-      case 8:
-        return AudioFormatConverter.floatTo8Bit(input).buffer as ArrayBuffer;
-      case 16:
-        return AudioFormatConverter.floatTo16Bit(input).buffer as ArrayBuffer;
-      case 24:
-        return AudioFormatConverter.floatTo24Bit(input);
-      case 32:
-        return AudioFormatConverter.floatTo32Bit(input).buffer as ArrayBuffer;
-      default:
-        throw new Error(`Unsupported bit depth: ${bitDepth}`);
-    }
-  }
-
-  /**
-   * Convert PCM data to Float32Array
-   */
-  static pcmToFloat(input: ArrayBuffer, bitDepth: BitDepth): Float32Array {
-    switch (bitDepth) {
-      case 8:
-        return AudioFormatConverter.int8ToFloat(new Int8Array(input));
-      case 16:
-        return AudioFormatConverter.int16ToFloat(new Int16Array(input));
-      case 24:
-        return AudioFormatConverter.int24ToFloat(input);
-      case 32:
-        return AudioFormatConverter.int32ToFloat(new Int32Array(input));
-      default:
-        throw new Error(`Unsupported bit depth: ${bitDepth}`);
-    }
-  }
-
-  private static floatTo8Bit(input: Float32Array): Int8Array {
-    const output = new Int8Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      const s = Math.max(-1, Math.min(1, input[i]));
-      output[i] = s * 127;
-    }
-    return output;
-  }
-
-  private static floatTo16Bit(input: Float32Array): Int16Array {
-    const output = new Int16Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      const s = Math.max(-1, Math.min(1, input[i]));
-      output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-    }
-    return output;
-  }
-
-  private static floatTo24Bit(input: Float32Array): ArrayBuffer {
-    const output = new ArrayBuffer(input.length * 3);
-    const view = new DataView(output);
-    for (let i = 0; i < input.length; i++) {
-      const s = Math.max(-1, Math.min(1, input[i]));
-      const val = s < 0 ? s * 0x800000 : s * 0x7fffff;
-      const intVal = Math.floor(val);
-      view.setUint8(i * 3, intVal & 0xff);
-      view.setUint8(i * 3 + 1, (intVal >> 8) & 0xff);
-      view.setUint8(i * 3 + 2, (intVal >> 16) & 0xff);
-    }
-    return output;
-  }
-
-  private static floatTo32Bit(input: Float32Array): Int32Array {
-    const output = new Int32Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      const s = Math.max(-1, Math.min(1, input[i]));
-      output[i] = s < 0 ? s * 0x80000000 : s * 0x7fffffff;
-    }
-    return output;
-  }
-
-  private static int8ToFloat(input: Int8Array): Float32Array {
-    const output = new Float32Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      output[i] = input[i] / 127;
-    }
-    return output;
-  }
-
-  private static int16ToFloat(input: Int16Array): Float32Array {
-    const output = new Float32Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      output[i] = input[i] < 0 ? input[i] / 0x8000 : input[i] / 0x7fff;
-    }
-    return output;
-  }
-
-  private static int24ToFloat(input: ArrayBuffer): Float32Array {
-    const view = new DataView(input);
-    const numSamples = input.byteLength / 3;
-    const output = new Float32Array(numSamples);
-    for (let i = 0; i < numSamples; i++) {
-      let val =
-        view.getUint8(i * 3) |
-        (view.getUint8(i * 3 + 1) << 8) |
-        (view.getUint8(i * 3 + 2) << 16);
-      // Sign extend
-      if (val & 0x800000) {
-        val |= 0xff000000;
-      }
-      output[i] = val < 0 ? val / 0x800000 : val / 0x7fffff;
-    }
-    return output;
-  }
-
-  private static int32ToFloat(input: Int32Array): Float32Array {
-    const output = new Float32Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      output[i] = input[i] < 0 ? input[i] / 0x80000000 : input[i] / 0x7fffffff;
-    }
-    return output;
-  }
-}
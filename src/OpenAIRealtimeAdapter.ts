@@ -0,0 +1,202 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./utils";
+import type {
+  AudioFormat,
+  ProtocolAdapter,
+  ProtocolEvent,
+  ProtocolPayload,
+} from "./types";
+
+/**
+ * OpenAI Realtime adapter configuration
+ */
+export interface OpenAIRealtimeConfig {
+  /** Sent as session.update when the socket opens (instructions, voice, turn_detection, ...) */
+  session?: Record<string, unknown>;
+  /** Cancel the response being generated when the client interrupts (default: true) */
+  cancelOnInterrupt?: boolean;
+}
+
+interface RealtimeServerEvent {
+  type: string;
+  item_id?: string;
+  content_index?: number;
+  delta?: string;
+  error?: { message?: string; code?: string };
+}
+
+const PCM16_24K: AudioFormat = {
+  sampleRate: 24000,
+  bitDepth: 16,
+  channels: 1,
+  codec: "pcm",
+};
+
+/**
+ * Protocol adapter for OpenAI Realtime-style event protocols
+ *
+ * - Captured audio is sent as input_audio_buffer.append (base64 PCM16)
+ * - response.audio.delta (or response.output_audio.delta) plays, with the
+ *   item ID as turn ID; a new item starts a turn, response.audio.done ends it
+ *   (or response.done, for responses cancelled before their audio was done)
+ * - input_audio_buffer.speech_started (server VAD) interrupts playback
+ * - A client interrupt becomes response.cancel (while a response is being
+ *   generated) and conversation.item.truncate at the played position, so the
+ *   conversation only contains what the user actually heard
+ *
+ * Chatdio's own speech-start/speech-end and ping messages are dropped; any
+ * other message passes through, so native events (e.g. response.create) can
+ * be sent with sendMessage(). Server events without a mapping are emitted
+ * as messages.
+ */
+export class OpenAIRealtimeAdapter implements ProtocolAdapter {
+  readonly name = "openai-realtime";
+  readonly sendFormat = PCM16_24K;
+  readonly receiveFormat = PCM16_24K;
+  private config: Required<OpenAIRealtimeConfig>;
+
+  // Audio item last received, and whether a response is being generated
+  private itemId: string | null = null;
+  private contentIndex = 0;
+  private responseActive = false;
+
+  constructor(config: OpenAIRealtimeConfig = {}) {
+    this.config = {
+      session: config.session ?? {},
+      cancelOnInterrupt: config.cancelOnInterrupt ?? true,
+    };
+  }
+
+  open(): ProtocolPayload[] {
+    this.itemId = null;
+    this.contentIndex = 0;
+    this.responseActive = false;
+
+    if (Object.keys(this.config.session).length === 0) {
+      return [];
+    }
+    return [{ type: "session.update", session: this.config.session }];
+  }
+
+  wrapAudio(data: ArrayBuffer): ProtocolPayload {
+    return {
+      type: "input_audio_buffer.append",
+      audio: arrayBufferToBase64(data),
+    };
+  }
+
+  wrapMessage(message: unknown): ProtocolPayload[] {
+    if (typeof message !== "object" || message === null) {
+      return [message as ProtocolPayload];
+    }
+
+    const control = message as {
+      type?: string;
+      turnId?: string;
+      playedMs?: number;
+    };
+    switch (control.type) {
+      case "interrupt":
+        return this.interrupt(control.turnId, control.playedMs ?? 0);
+      case "speech-start":
+      case "speech-end":
+      case "ping":
+        return [];
+      default:
+        return [message];
+    }
+  }
+
+  parseMessage(data: string | ArrayBuffer): ProtocolEvent[] {
+    if (typeof data !== "string") {
+      return [{ type: "message", data }];
+    }
+
+    let event: RealtimeServerEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return [{ type: "message", data }];
+    }
+
+    switch (event.type) {
+      case "response.audio.delta":
+      case "response.output_audio.delta":
+        return this.handleAudioDelta(event);
+
+      case "response.audio.done":
+      case "response.output_audio.done":
+        return event.item_id
+          ? [{ type: "turn-end", turnId: event.item_id }]
+          : [];
+
+      case "input_audio_buffer.speech_started":
+        // Server VAD cancels the response itself
+        this.responseActive = false;
+        return [{ type: "interrupt" }, { type: "message", data: event }];
+
+      case "response.created":
+        this.responseActive = true;
+        break;
+
+      case "response.done":
+        this.responseActive = false;
+        return this.itemId
+          ? [
+              { type: "turn-end", turnId: this.itemId },
+              { type: "message", data: event },
+            ]
+          : [{ type: "message", data: event }];
+
+      case "error":
+        return [
+          {
+            type: "error",
+            message: event.error?.message ?? "Realtime API error",
+            code: event.error?.code,
+          },
+        ];
+    }
+
+    return [{ type: "message", data: event }];
+  }
+
+  private handleAudioDelta(event: RealtimeServerEvent): ProtocolEvent[] {
+    if (!event.delta || !event.item_id) {
+      return [];
+    }
+
+    const events: ProtocolEvent[] = [];
+    if (event.item_id !== this.itemId) {
+      this.itemId = event.item_id;
+      events.push({ type: "turn-start", turnId: event.item_id });
+    }
+    this.contentIndex = event.content_index ?? 0;
+    events.push({
+      type: "audio",
+      data: base64ToArrayBuffer(event.delta),
+      turnId: event.item_id,
+    });
+    return events;
+  }
+
+  private interrupt(
+    turnId: string | undefined,
+    playedMs: number
+  ): ProtocolPayload[] {
+    const payloads: ProtocolPayload[] = [];
+    if (this.responseActive && this.config.cancelOnInterrupt) {
+      payloads.push({ type: "response.cancel" });
+      this.responseActive = false;
+    }
+    // Only items the server sent audio for can be truncated
+    if (turnId && turnId === this.itemId) {
+      payloads.push({
+        type: "conversation.item.truncate",
+        item_id: turnId,
+        content_index: this.contentIndex,
+        audio_end_ms: Math.max(0, Math.round(playedMs)),
+      });
+    }
+    return payloads;
+  }
+}
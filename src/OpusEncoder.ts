@@ -0,0 +1,248 @@
+import { TypedEventEmitter } from "./EventEmitter";
+import type { SampleRate } from "./types";
+
+interface OpusEncoderEvents {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: (...args: any[]) => void;
+  /** timestamp is the packet's position in the encoded stream, in seconds */
+  data: (data: ArrayBuffer, timestamp: number) => void;
+  error: (error: Error) => void;
+}
+
+/**
+ * Opus encoder configuration
+ */
+export interface OpusEncoderConfig {
+  /** Sample rate of the PCM input */
+  sampleRate: SampleRate;
+  /** Number of channels */
+  channels?: 1 | 2;
+  /** Target bitrate in bits per second */
+  bitrate?: number;
+}
+
+/**
+ * Sample rates accepted by the Opus codec
+ */
+const OPUS_SAMPLE_RATES: readonly number[] = [8000, 12000, 16000, 24000, 48000];
+
+/**
+ * Frame a list of Opus packets for transport
+ *
+ * Framing: each packet is prefixed with its byte length as an unsigned
+ * 16-bit big-endian integer, followed by the raw Opus packet bytes.
+ * A single message may contain any number of consecutive frames.
+ *
+ * ```
+ * | len (u16 BE) | packet (len bytes) | len (u16 BE) | packet | ...
+ * ```
+ */
+export function frameOpusPackets(packets: Uint8Array[]): ArrayBuffer {
+  const totalLength = packets.reduce((sum, p) => sum + 2 + p.byteLength, 0);
+  const output = new Uint8Array(totalLength);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  for (const packet of packets) {
+    if (packet.byteLength > 0xffff) {
+      throw new Error(`Opus packet too large: ${packet.byteLength} bytes`);
+    }
+    view.setUint16(offset, packet.byteLength, false);
+    output.set(packet, offset + 2);
+    offset += 2 + packet.byteLength;
+  }
+
+  return output.buffer;
+}
+
+/**
+ * Split a framed message back into individual Opus packets
+ * @see frameOpusPackets for the framing format
+ */
+export function parseOpusFrames(data: ArrayBuffer): Uint8Array[] {
+  const view = new DataView(data);
+  const packets: Uint8Array[] = [];
+
+  let offset = 0;
+  while (offset + 2 <= data.byteLength) {
+    const length = view.getUint16(offset, false);
+    offset += 2;
+    if (offset + length > data.byteLength) {
+      throw new Error("Truncated Opus frame");
+    }
+    packets.push(new Uint8Array(data, offset, length));
+    offset += length;
+  }
+
+  return packets;
+}
+
+/**
+ * Duration of an Opus packet in milliseconds, read from its TOC byte
+ * (RFC 6716, section 3.1)
+ */
+export function getOpusPacketDuration(packet: Uint8Array): number {
+  if (packet.byteLength === 0) {
+    return 0;
+  }
+
+  const toc = packet[0];
+  const config = toc >> 3;
+  let frameMs: number;
+  if (config < 12) {
+    frameMs = [10, 20, 40, 60][config & 3]; // SILK
+  } else if (config < 16) {
+    frameMs = config & 1 ? 20 : 10; // Hybrid
+  } else {
+    frameMs = [2.5, 5, 10, 20][config & 3]; // CELT
+  }
+
+  // Frame count code: one frame, two frames, or a count in the next byte
+  const code = toc & 3;
+  let frames = 1;
+  if (code === 1 || code === 2) {
+    frames = 2;
+  } else if (code === 3) {
+    frames = packet.byteLength > 1 ? packet[1] & 0x3f : 0;
+  }
+  return frameMs * frames;
+}
+
+/**
+ * Encodes PCM audio to Opus using the WebCodecs AudioEncoder
+ * Encoding runs off the main thread inside the browser's codec implementation.
+ * Each "data" event carries one framed Opus packet (see frameOpusPackets).
+ */
+export class OpusEncoder extends TypedEventEmitter<OpusEncoderEvents> {
+  private encoder: AudioEncoder | null = null;
+  private config: Required<OpusEncoderConfig>;
+  private samplesEncoded = 0;
+
+  constructor(config: OpusEncoderConfig) {
+    super();
+    this.config = {
+      sampleRate: config.sampleRate,
+      channels: config.channels ?? 1,
+      bitrate: config.bitrate ?? 24000,
+    };
+  }
+
+  /**
+   * Check if Opus encoding is available in this browser
+   */
+  static async isSupported(config: OpusEncoderConfig): Promise<boolean> {
+    if (
+      typeof AudioEncoder === "undefined" ||
+      !OPUS_SAMPLE_RATES.includes(config.sampleRate)
+    ) {
+      return false;
+    }
+
+    try {
+      const support = await AudioEncoder.isConfigSupported({
+        codec: "opus",
+        sampleRate: config.sampleRate,
+        numberOfChannels: config.channels ?? 1,
+        bitrate: config.bitrate ?? 24000,
+      });
+      return support.supported === true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create and configure the underlying encoder
+   */
+  async initialize(): Promise<void> {
+    if (this.encoder) {
+      return;
+    }
+
+    if (!(await OpusEncoder.isSupported(this.config))) {
+      throw new Error(
+        `Opus encoding not supported at ${this.config.sampleRate} Hz in this browser`
+      );
+    }
+
+    this.encoder = new AudioEncoder({
+      output: (chunk) => {
+        const packet = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(packet);
+        this.emit(
+          "data",
+          frameOpusPackets([packet]),
+          chunk.timestamp / 1000000
+        );
+      },
+      error: (error) => {
+        this.emit(
+          "error",
+          error instanceof Error ? error : new Error(String(error))
+        );
+      },
+    });
+
+    this.encoder.configure({
+      codec: "opus",
+      sampleRate: this.config.sampleRate,
+      numberOfChannels: this.config.channels,
+      bitrate: this.config.bitrate,
+    });
+    this.samplesEncoded = 0;
+  }
+
+  /**
+   * Queue interleaved float samples for encoding
+   */
+  encode(input: Float32Array): void {
+    if (!this.encoder || this.encoder.state !== "configured") {
+      return;
+    }
+
+    const numberOfFrames = input.length / this.config.channels;
+    if (numberOfFrames === 0) {
+      return;
+    }
+
+    const audioData = new AudioData({
+      format: "f32",
+      sampleRate: this.config.sampleRate,
+      numberOfFrames,
+      numberOfChannels: this.config.channels,
+      // Timestamps are in microseconds
+      timestamp: Math.round(
+        (this.samplesEncoded / this.config.sampleRate) * 1000000
+      ),
+      data: input as Float32Array<ArrayBuffer>,
+    });
+    this.samplesEncoded += numberOfFrames;
+
+    try {
+      this.encoder.encode(audioData);
+    } catch (error) {
+      this.emit("error", error as Error);
+    } finally {
+      audioData.close();
+    }
+  }
+
+  /**
+   * Flush any buffered samples through the encoder
+   */
+  async flush(): Promise<void> {
+    if (this.encoder && this.encoder.state === "configured") {
+      await this.encoder.flush();
+    }
+  }
+
+  /**
+   * Close the encoder and release resources
+   */
+  close(): void {
+    if (this.encoder && this.encoder.state !== "closed") {
+      this.encoder.close();
+    }
+    this.encoder = null;
+  }
+}
@@ -0,0 +1,209 @@
+import type { ResampleQuality } from "./types";
+
+/**
+ * Band-limited sample rate converter (polyphase windowed-sinc)
+ *
+ * The resampler is stateful: filter history and the fractional read position
+ * are carried across calls, so feeding a signal in arbitrary chunks produces
+ * the same output as feeding it in one piece. Use one instance per channel.
+ *
+ * When downsampling, the filter cutoff is lowered below the output Nyquist
+ * frequency so high-frequency content is removed instead of aliasing.
+ *
+ * Note: this class is also injected into the capture AudioWorklet via
+ * toString(), so it must stay self-contained (no imports or module state).
+ */
+export class Resampler {
+  private inputRate: number;
+  private outputRate: number;
+  private step: number;
+  private halfLength: number;
+  private taps: number;
+  private phases: number;
+  private table: Float32Array;
+
+  // Streaming state
+  private history: Float32Array;
+  private position: number;
+  private active = false;
+
+  constructor(
+    inputRate: number,
+    outputRate: number,
+    quality: ResampleQuality = "medium"
+  ) {
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+    this.step = inputRate / outputRate;
+
+    if (quality === "low") {
+      // Two-tap triangle kernel, interpolated between phases = exact linear interpolation
+      this.halfLength = 1;
+      this.phases = 1;
+    } else {
+      const zeroCrossings = quality === "high" ? 32 : 8;
+      this.phases = quality === "high" ? 256 : 64;
+      this.halfLength = Math.ceil(zeroCrossings / this.getCutoff(quality));
+    }
+
+    this.taps = this.halfLength * 2;
+    this.table = this.buildTable(quality);
+    this.history = new Float32Array(this.halfLength);
+    this.position = this.halfLength;
+  }
+
+  /**
+   * Get the input sample rate
+   */
+  getInputRate(): number {
+    return this.inputRate;
+  }
+
+  /**
+   * Get the output sample rate
+   */
+  getOutputRate(): number {
+    return this.outputRate;
+  }
+
+  /**
+   * Check if input is being held back (flush() has samples to drain)
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Resample the next chunk of a continuous signal
+   * Output is delayed by the filter half-length; call flush() at the end of the stream.
+   */
+  process(input: Float32Array): Float32Array {
+    if (this.inputRate === this.outputRate) {
+      return input;
+    }
+
+    if (input.length > 0) {
+      this.active = true;
+    }
+
+    // Prepend the samples kept from the previous chunk
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history, 0);
+    buffer.set(input, this.history.length);
+
+    const maxOutput = Math.ceil(buffer.length / this.step) + 1;
+    const output = new Float32Array(maxOutput);
+    const halfLength = this.halfLength;
+    const taps = this.taps;
+    const phases = this.phases;
+    const table = this.table;
+
+    let count = 0;
+    let position = this.position;
+
+    // Each output sample needs halfLength input samples after its position
+    while (Math.floor(position) + halfLength < buffer.length) {
+      const index = Math.floor(position);
+      const phasePosition = (position - index) * phases;
+      const phase = Math.floor(phasePosition);
+      const t = phasePosition - phase;
+      const row0 = phase * taps;
+      const row1 = row0 + taps;
+      const base = index - halfLength + 1;
+
+      let sum0 = 0;
+      let sum1 = 0;
+      for (let k = 0; k < taps; k++) {
+        const sample = buffer[base + k];
+        sum0 += sample * table[row0 + k];
+        sum1 += sample * table[row1 + k];
+      }
+
+      output[count++] = sum0 + (sum1 - sum0) * t;
+      position += this.step;
+    }
+
+    // Keep everything the next output sample's filter window will touch
+    const keepFrom = Math.min(
+      Math.max(0, Math.floor(position) - halfLength + 1),
+      buffer.length
+    );
+    this.history = buffer.slice(keepFrom);
+    this.position = position - keepFrom;
+
+    return output.slice(0, count);
+  }
+
+  /**
+   * Drain the samples held back by the filter (end of stream)
+   */
+  flush(): Float32Array {
+    if (this.inputRate === this.outputRate) {
+      return new Float32Array(0);
+    }
+    const output = this.process(new Float32Array(this.halfLength));
+    this.reset();
+    return output;
+  }
+
+  /**
+   * Clear the filter state (start of a new, unrelated signal)
+   */
+  reset(): void {
+    this.history = new Float32Array(this.halfLength);
+    this.position = this.halfLength;
+    this.active = false;
+  }
+
+  private getCutoff(quality: ResampleQuality): number {
+    // Cutoff relative to the input Nyquist frequency, leaving room for the transition band
+    const margin = quality === "high" ? 0.95 : 0.9;
+    return Math.min(1, this.outputRate / this.inputRate) * margin;
+  }
+
+  /**
+   * Precompute one filter row per phase (plus one extra row for interpolation)
+   * Row p holds kernel(k - p / phases) for taps k = -halfLength + 1 .. halfLength
+   */
+  private buildTable(quality: ResampleQuality): Float32Array {
+    const table = new Float32Array((this.phases + 1) * this.taps);
+    const cutoff = quality === "low" ? 1 : this.getCutoff(quality);
+
+    for (let phase = 0; phase <= this.phases; phase++) {
+      const offset = phase / this.phases;
+      const row = phase * this.taps;
+      let sum = 0;
+
+      for (let k = 0; k < this.taps; k++) {
+        const x = k - this.halfLength + 1 - offset;
+        let value: number;
+
+        if (quality === "low") {
+          value = Math.max(0, 1 - Math.abs(x));
+        } else {
+          const arg = Math.PI * cutoff * x;
+          const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+          // Blackman window over [-halfLength, halfLength]
+          const w = (Math.PI * x) / this.halfLength;
+          const window =
+            Math.abs(x) >= this.halfLength
+              ? 0
+              : 0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w);
+          value = cutoff * sinc * window;
+        }
+
+        table[row + k] = value;
+        sum += value;
+      }
+
+      // Normalise each phase to unity DC gain
+      if (sum !== 0) {
+        for (let k = 0; k < this.taps; k++) {
+          table[row + k] /= sum;
+        }
+      }
+    }
+
+    return table;
+  }
+}
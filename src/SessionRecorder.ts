@@ -0,0 +1,506 @@
+import { TypedEventEmitter } from "./EventEmitter";
+import { AudioFormatConverter } from "./AudioFormatConverter";
+import { Resampler } from "./Resampler";
+import { createRecorderWorkletBlobUrl } from "./recorder-worklet-processor";
+import { createWavHeader } from "./wav";
+import type { MicrophoneCapture } from "./MicrophoneCapture";
+import type { AudioPlayback } from "./AudioPlayback";
+import type {
+  SessionRecorderConfig,
+  RecordedTurn,
+  RecordedSpeech,
+  VADEvent,
+} from "./types";
+
+interface SessionRecorderEvents {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: (...args: any[]) => void;
+  start: () => void;
+  stop: (recording: Blob) => void;
+  error: (error: Error) => void;
+}
+
+// Contexts the processor module has been added to (a processor name can only
+// be registered once per context, and contexts may be shared)
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * One channel of a recording, with audio placed by its timestamp
+ *
+ * Chunks that continue where the previous one ended are resampled as one
+ * stream; a chunk more than 50 ms away from that (a capture restart, a
+ * stall) starts a new stream at its own position. Gaps stay silent.
+ */
+class RecordingTrack {
+  private sampleRate: number;
+  private samples: Int16Array;
+  private length = 0;
+  private resampler: Resampler | null = null;
+  private position = 0; // Where the current stream continues, in samples
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+    this.samples = new Int16Array(sampleRate * 10);
+  }
+
+  /**
+   * Write samples starting at a time on the recording's timeline
+   * @param time - Seconds since the start of the recording
+   */
+  write(input: Float32Array, inputRate: number, time: number): void {
+    const target = Math.round(time * this.sampleRate);
+    if (
+      !this.resampler ||
+      this.resampler.getInputRate() !== inputRate ||
+      Math.abs(target - this.position) > this.sampleRate * 0.05
+    ) {
+      this.resampler = new Resampler(inputRate, this.sampleRate);
+      this.position = target;
+    }
+
+    const output =
+      inputRate === this.sampleRate ? input : this.resampler.process(input);
+    const start = this.position;
+    this.position += output.length;
+
+    // Audio from before the recording started is dropped
+    const skip = Math.max(0, -start);
+    if (skip >= output.length) {
+      return;
+    }
+    this.ensureCapacity(start + output.length);
+    for (let i = skip; i < output.length; i++) {
+      const sample = Math.max(-1, Math.min(1, output[i]));
+      this.samples[start + i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+    this.length = Math.max(this.length, start + output.length);
+  }
+
+  getLength(): number {
+    return this.length;
+  }
+
+  getSamples(): Int16Array {
+    return this.samples;
+  }
+
+  private ensureCapacity(length: number): void {
+    if (length <= this.samples.length) {
+      return;
+    }
+    const grown = new Int16Array(Math.max(length, this.samples.length * 2));
+    grown.set(this.samples.subarray(0, this.length));
+    this.samples = grown;
+  }
+}
+
+interface OpenTurn {
+  turnId: string;
+  start: number;
+}
+
+/**
+ * Records both sides of a conversation to a stereo WAV file
+ *
+ * The user (microphone data, after echo cancellation and resampling) is on
+ * the left channel and the assistant (what playback actually played, after
+ * volume, fades and time stretching) on the right. Both are placed by their
+ * AudioContext time, so overlaps and interruptions line up as they were
+ * heard. Assistant turns and detected speech are kept as markers on the same
+ * timeline and can be exported as sidecar JSON.
+ *
+ * Microphone audio must be PCM or G.711 (Opus packets aren't decoded).
+ *
+ * @example
+ * ```typescript
+ * const recorder = new SessionRecorder({ sampleRate: 24000 });
+ * await recorder.start(microphone, playback);
+ * // ...
+ * const wav = await recorder.stop();
+ * const sidecar = recorder.exportTurns();
+ * ```
+ */
+export class SessionRecorder extends TypedEventEmitter<SessionRecorderEvents> {
+  private config: Required<SessionRecorderConfig>;
+  private audioContext: BaseAudioContext | null = null;
+  private microphone: MicrophoneCapture | null = null;
+  private source: AudioNode | null = null;
+  private tapNode: AudioWorkletNode | ScriptProcessorNode | null = null;
+  private recording = false;
+  private startTime = 0;
+  private endTime = 0;
+
+  private micTrack: RecordingTrack;
+  private assistantTrack: RecordingTrack;
+
+  // Markers in AudioContext time
+  private turns: RecordedTurn[] = [];
+  private openTurns = new Map<string, OpenTurn>();
+  private speech: RecordedSpeech[] = [];
+  private speechStart: number | null = null;
+
+  // Resolves when the worklet has posted the last partial chunk
+  private flushResolve: (() => void) | null = null;
+
+  constructor(config: SessionRecorderConfig = {}) {
+    super();
+    this.config = {
+      sampleRate: config.sampleRate ?? 24000,
+    };
+    this.micTrack = new RecordingTrack(this.config.sampleRate);
+    this.assistantTrack = new RecordingTrack(this.config.sampleRate);
+  }
+
+  /**
+   * Start recording
+   * Both must be running in (or, for the microphone, timestamped against)
+   * the same AudioContext, e.g. the one Chatdio shares between them.
+   * @param microphone - Capture to record the user from
+   * @param playback - Initialized playback to record the assistant from
+   */
+  async start(
+    microphone: MicrophoneCapture,
+    playback: AudioPlayback
+  ): Promise<void> {
+    if (this.recording) {
+      return;
+    }
+
+    const output = playback.getAnalyzerNode();
+    if (!output) {
+      throw new Error("AudioPlayback not initialized");
+    }
+    if (microphone.getConfig().codec === "opus") {
+      throw new Error(
+        "Recording Opus-encoded microphone audio isn't supported"
+      );
+    }
+
+    try {
+      this.audioContext = output.context;
+      this.source = output;
+      await this.setupTap(output);
+    } catch (error) {
+      this.disconnect();
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emit("error", err);
+      throw err;
+    }
+
+    this.micTrack = new RecordingTrack(this.config.sampleRate);
+    this.assistantTrack = new RecordingTrack(this.config.sampleRate);
+    this.turns = [];
+    this.openTurns.clear();
+    this.speech = [];
+    this.speechStart = null;
+
+    this.microphone = microphone;
+    microphone.on("data", this.handleMicData);
+    microphone.on("speech-start", this.handleSpeechStart);
+    microphone.on("speech-end", this.handleSpeechEnd);
+
+    this.startTime = this.audioContext.currentTime;
+    this.recording = true;
+    this.emit("start");
+  }
+
+  /**
+   * Stop recording
+   * @returns The recording as a 16-bit stereo WAV (user left, assistant right)
+   */
+  async stop(): Promise<Blob> {
+    if (!this.recording) {
+      throw new Error("Not recording");
+    }
+
+    this.endTime = this.audioContext?.currentTime ?? this.startTime;
+    await this.flushTap();
+    this.recording = false;
+    this.disconnect();
+
+    // Close markers still open at the end of the recording
+    for (const turn of this.openTurns.values()) {
+      this.turns.push(this.createTurn(turn, this.endTime, false, null));
+    }
+    this.openTurns.clear();
+    if (this.speechStart !== null) {
+      this.speech.push(this.createSpeech(this.speechStart, this.endTime));
+      this.speechStart = null;
+    }
+    this.turns.sort((a, b) => a.startMs - b.startMs);
+
+    const blob = this.encodeWav();
+    this.emit("stop", blob);
+    return blob;
+  }
+
+  /**
+   * Check if recording
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Mark the start of an assistant turn at the current time
+   */
+  markTurnStart(turnId: string): void {
+    if (!this.recording || !this.audioContext) return;
+    this.openTurns.set(turnId, {
+      turnId,
+      start: this.audioContext.currentTime,
+    });
+  }
+
+  /**
+   * Mark the end of an assistant turn at the current time
+   * @param playedMs - Milliseconds of the turn's audio that were played
+   */
+  markTurnEnd(turnId: string, interrupted = false, playedMs?: number): void {
+    if (!this.recording || !this.audioContext) return;
+    const now = this.audioContext.currentTime;
+    const turn = this.openTurns.get(turnId) ?? { turnId, start: now };
+    this.openTurns.delete(turnId);
+    this.turns.push(this.createTurn(turn, now, interrupted, playedMs ?? null));
+  }
+
+  /**
+   * Get the assistant turns recorded so far (open turns are left out)
+   */
+  getTurns(): RecordedTurn[] {
+    return [...this.turns];
+  }
+
+  /**
+   * Get the stretches of user speech recorded so far
+   */
+  getSpeech(): RecordedSpeech[] {
+    return [...this.speech];
+  }
+
+  /**
+   * Get the duration of the recording in seconds
+   */
+  getDuration(): number {
+    const length = Math.max(
+      this.micTrack.getLength(),
+      this.assistantTrack.getLength()
+    );
+    return length / this.config.sampleRate;
+  }
+
+  /**
+   * Export turn and speech boundaries as sidecar JSON
+   * Offsets are milliseconds from the first sample of the WAV file.
+   */
+  exportTurns(): string {
+    return JSON.stringify(
+      {
+        sampleRate: this.config.sampleRate,
+        durationMs: Math.round(this.getDuration() * 1000),
+        channels: ["user", "assistant"],
+        turns: this.getTurns(),
+        speech: this.getSpeech(),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Stop recording and release resources
+   */
+  dispose(): void {
+    this.recording = false;
+    this.disconnect();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Tap the playback output with the recorder worklet (or a
+   * ScriptProcessorNode where AudioWorklet isn't available)
+   */
+  private async setupTap(output: AudioNode): Promise<void> {
+    const context = output.context;
+
+    if (typeof AudioWorkletNode !== "undefined" && "audioWorklet" in context) {
+      if (!loadedContexts.has(context)) {
+        const blobUrl = createRecorderWorkletBlobUrl();
+        try {
+          await context.audioWorklet.addModule(blobUrl);
+        } finally {
+          URL.revokeObjectURL(blobUrl);
+        }
+        loadedContexts.add(context);
+      }
+
+      const node = new AudioWorkletNode(context, "recorder-processor", {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [1],
+      });
+      node.port.onmessage = (event) => {
+        if (event.data.type === "audio") {
+          this.writeAssistant(
+            event.data.samples as Float32Array,
+            (event.data.frame as number) / context.sampleRate
+          );
+          if (event.data.final) {
+            this.flushResolve?.();
+          }
+        }
+      };
+      this.tapNode = node;
+    } else {
+      const node = context.createScriptProcessor(2048, 1, 1);
+      node.onaudioprocess = (event) => {
+        const input = event.inputBuffer.getChannelData(0);
+        this.writeAssistant(
+          new Float32Array(input),
+          context.currentTime - event.inputBuffer.duration
+        );
+      };
+      this.tapNode = node;
+    }
+
+    output.connect(this.tapNode);
+    // Outputs silence, but must be pulled by the destination to run
+    this.tapNode.connect(context.destination);
+  }
+
+  /**
+   * Wait for audio the worklet is still holding
+   */
+  private flushTap(): Promise<void> {
+    const node = this.tapNode;
+    if (!(node && "port" in node)) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      // Don't hang if the context isn't running
+      const timer = setTimeout(() => {
+        this.flushResolve = null;
+        resolve();
+      }, 500);
+      this.flushResolve = () => {
+        clearTimeout(timer);
+        this.flushResolve = null;
+        resolve();
+      };
+      node.port.postMessage({ type: "flush" });
+    });
+  }
+
+  private disconnect(): void {
+    if (this.microphone) {
+      this.microphone.off("data", this.handleMicData);
+      this.microphone.off("speech-start", this.handleSpeechStart);
+      this.microphone.off("speech-end", this.handleSpeechEnd);
+      this.microphone = null;
+    }
+
+    if (this.tapNode) {
+      if ("port" in this.tapNode) {
+        this.tapNode.port.onmessage = null;
+      } else {
+        this.tapNode.onaudioprocess = null;
+      }
+      try {
+        this.source?.disconnect(this.tapNode);
+      } catch {
+        // Already disconnected
+      }
+      this.tapNode.disconnect();
+      this.tapNode = null;
+    }
+    this.source = null;
+    this.flushResolve = null;
+  }
+
+  private writeAssistant(samples: Float32Array, time: number): void {
+    if (!this.recording || !this.audioContext) return;
+    this.assistantTrack.write(
+      samples,
+      this.audioContext.sampleRate,
+      time - this.startTime
+    );
+  }
+
+  private handleMicData = (data: ArrayBuffer, time: number): void => {
+    if (!this.recording || !this.microphone) return;
+
+    const config = this.microphone.getConfig();
+    const samples =
+      config.codec === "mulaw" || config.codec === "alaw"
+        ? AudioFormatConverter.g711ToFloat(new Uint8Array(data), config.codec)
+        : AudioFormatConverter.pcmToFloat(data, 16);
+    this.micTrack.write(samples, config.sampleRate, time - this.startTime);
+  };
+
+  private handleSpeechStart = (event: VADEvent): void => {
+    if (!this.microphone) return;
+    this.speechStart =
+      this.microphone.getCaptureStartTime() + event.timeMs / 1000;
+  };
+
+  private handleSpeechEnd = (event: VADEvent): void => {
+    if (!this.microphone || this.speechStart === null) return;
+    const end = this.microphone.getCaptureStartTime() + event.timeMs / 1000;
+    this.speech.push(this.createSpeech(this.speechStart, end));
+    this.speechStart = null;
+  };
+
+  private createTurn(
+    turn: OpenTurn,
+    end: number,
+    interrupted: boolean,
+    playedMs: number | null
+  ): RecordedTurn {
+    return {
+      turnId: turn.turnId,
+      startMs: this.toOffsetMs(turn.start),
+      endMs: this.toOffsetMs(end),
+      interrupted,
+      playedMs: playedMs === null ? null : Math.round(playedMs),
+    };
+  }
+
+  private createSpeech(start: number, end: number): RecordedSpeech {
+    return { startMs: this.toOffsetMs(start), endMs: this.toOffsetMs(end) };
+  }
+
+  /**
+   * AudioContext time to milliseconds into the recording
+   */
+  private toOffsetMs(time: number): number {
+    return Math.max(0, Math.round((time - this.startTime) * 1000));
+  }
+
+  /**
+   * Interleave both tracks into a 16-bit stereo WAV file
+   */
+  private encodeWav(): Blob {
+    const frames = Math.max(
+      this.micTrack.getLength(),
+      this.assistantTrack.getLength()
+    );
+    const tracks = [this.micTrack, this.assistantTrack];
+    const data = new Int16Array(frames * tracks.length);
+    tracks.forEach((track, ch) => {
+      const samples = track.getSamples();
+      for (let i = 0; i < track.getLength(); i++) {
+        data[i * tracks.length + ch] = samples[i];
+      }
+    });
+
+    const header = createWavHeader(
+      {
+        sampleRate: this.config.sampleRate,
+        channels: tracks.length,
+        bitDepth: 16,
+      },
+      data.byteLength
+    );
+    return new Blob([header, data], { type: "audio/wav" });
+  }
+}
@@ -0,0 +1,560 @@
+import { TypedEventEmitter } from "./EventEmitter";
+import { parseOpusFrames } from "./OpusEncoder";
+import { concatBytes } from "./utils";
+import type { AudioCodec } from "./types";
+
+interface StreamingDecoderEvents {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: (...args: any[]) => void;
+  data: (channels: Float32Array[], sampleRate: number, turnId?: string) => void;
+  error: (error: Error) => void;
+}
+
+/**
+ * Compressed codecs handled by the streaming decoder
+ */
+export type CompressedCodec = Extract<
+  AudioCodec,
+  "opus" | "ogg-opus" | "webm-opus"
+>;
+
+/**
+ * Check if a codec needs the streaming decoder (as opposed to sample-wise conversion)
+ */
+export function isCompressedCodec(codec: AudioCodec): codec is CompressedCodec {
+  return codec === "opus" || codec === "ogg-opus" || codec === "webm-opus";
+}
+
+/**
+ * Streaming decoder configuration
+ */
+export interface StreamingDecoderConfig {
+  /** Sample rate of raw Opus packets (ignored for containers, which carry their own header) */
+  sampleRate?: number;
+  /** Channel count of raw Opus packets (ignored for containers) */
+  channels?: 1 | 2;
+}
+
+/**
+ * Fields of the Opus identification header we care about
+ */
+interface OpusHead {
+  channels: number;
+  inputSampleRate: number;
+  raw: Uint8Array;
+}
+
+/**
+ * Incrementally extracts Opus packets from a container byte stream
+ */
+interface OpusDemuxer {
+  push(data: Uint8Array): Uint8Array[];
+  getHead(): OpusHead | null;
+  reset(): void;
+}
+
+function parseOpusHead(packet: Uint8Array): OpusHead | null {
+  // "OpusHead" magic signature
+  if (
+    packet.byteLength < 19 ||
+    String.fromCharCode(...packet.subarray(0, 8)) !== "OpusHead"
+  ) {
+    return null;
+  }
+  const view = new DataView(
+    packet.buffer,
+    packet.byteOffset,
+    packet.byteLength
+  );
+  return {
+    channels: packet[9],
+    inputSampleRate: view.getUint32(12, true),
+    raw: packet.slice(),
+  };
+}
+
+/**
+ * Ogg/Opus demuxer (RFC 3533 pages, RFC 7845 mapping)
+ */
+class OggOpusDemuxer implements OpusDemuxer {
+  private pending: Uint8Array = new Uint8Array(0);
+  private partialPacket: Uint8Array = new Uint8Array(0);
+  private head: OpusHead | null = null;
+  private packetIndex = 0;
+
+  push(data: Uint8Array): Uint8Array[] {
+    this.pending = concatBytes(this.pending, data);
+    const packets: Uint8Array[] = [];
+
+    while (this.pending.byteLength >= 27) {
+      // Resynchronise on the "OggS" capture pattern
+      if (
+        this.pending[0] !== 0x4f ||
+        this.pending[1] !== 0x67 ||
+        this.pending[2] !== 0x67 ||
+        this.pending[3] !== 0x53
+      ) {
+        const next = this.findCapturePattern(1);
+        this.pending =
+          next === -1 ? this.pending.subarray(-3) : this.pending.subarray(next);
+        continue;
+      }
+
+      const headerType = this.pending[5];
+      const segmentCount = this.pending[26];
+      const headerLength = 27 + segmentCount;
+      if (this.pending.byteLength < headerLength) break;
+
+      const segmentTable = this.pending.subarray(27, headerLength);
+      const bodyLength = segmentTable.reduce((sum, len) => sum + len, 0);
+      if (this.pending.byteLength < headerLength + bodyLength) break;
+
+      // Beginning of stream: a new logical stream restarts packet numbering
+      if (headerType & 0x02) {
+        this.head = null;
+        this.packetIndex = 0;
+        this.partialPacket = new Uint8Array(0);
+      }
+
+      let offset = headerLength;
+      for (const segmentLength of segmentTable) {
+        this.partialPacket = concatBytes(
+          this.partialPacket,
+          this.pending.slice(offset, offset + segmentLength)
+        );
+        offset += segmentLength;
+
+        // A segment shorter than 255 bytes terminates the packet
+        if (segmentLength < 255) {
+          this.handlePacket(this.partialPacket, packets);
+          this.partialPacket = new Uint8Array(0);
+        }
+      }
+
+      this.pending = this.pending.subarray(headerLength + bodyLength);
+    }
+
+    return packets;
+  }
+
+  getHead(): OpusHead | null {
+    return this.head;
+  }
+
+  reset(): void {
+    this.pending = new Uint8Array(0);
+    this.partialPacket = new Uint8Array(0);
+    this.head = null;
+    this.packetIndex = 0;
+  }
+
+  private handlePacket(packet: Uint8Array, out: Uint8Array[]): void {
+    const index = this.packetIndex++;
+    if (index === 0) {
+      this.head = parseOpusHead(packet);
+      return;
+    }
+    if (index === 1) {
+      // OpusTags comment header
+      return;
+    }
+    if (packet.byteLength > 0) {
+      out.push(packet);
+    }
+  }
+
+  private findCapturePattern(from: number): number {
+    for (let i = from; i + 3 < this.pending.byteLength; i++) {
+      if (
+        this.pending[i] === 0x4f &&
+        this.pending[i + 1] === 0x67 &&
+        this.pending[i + 2] === 0x67 &&
+        this.pending[i + 3] === 0x53
+      ) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
+
+// EBML element IDs used by the WebM demuxer
+const EBML_HEADER = 0x1a45dfa3;
+const SEGMENT = 0x18538067;
+const CLUSTER = 0x1f43b675;
+const BLOCK_GROUP = 0xa0;
+const BLOCK = 0xa1;
+const SIMPLE_BLOCK = 0xa3;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+
+// Master elements we descend into rather than skip
+const WEBM_MASTER_ELEMENTS = new Set([
+  SEGMENT,
+  CLUSTER,
+  BLOCK_GROUP,
+  TRACKS,
+  TRACK_ENTRY,
+]);
+
+/**
+ * WebM/Opus demuxer (EBML, live streams with unknown-size segments supported)
+ */
+class WebmOpusDemuxer implements OpusDemuxer {
+  private pending: Uint8Array = new Uint8Array(0);
+  private head: OpusHead | null = null;
+  private trackNumber: number | null = null;
+  private entryTrackNumber: number | null = null;
+  private entryIsOpus = false;
+
+  push(data: Uint8Array): Uint8Array[] {
+    this.pending = concatBytes(this.pending, data);
+    const packets: Uint8Array[] = [];
+
+    for (;;) {
+      const id = this.readVint(0, false);
+      if (!id || id.value === null) break;
+      const size = this.readVint(id.length, true);
+      if (!size) break;
+
+      const headerLength = id.length + size.length;
+
+      // A new EBML header starts a new stream
+      if (id.value === EBML_HEADER) {
+        this.head = null;
+        this.trackNumber = null;
+      }
+
+      if (WEBM_MASTER_ELEMENTS.has(id.value)) {
+        if (id.value === TRACK_ENTRY) {
+          this.entryTrackNumber = null;
+          this.entryIsOpus = false;
+        }
+        // Descend: only consume the element header
+        this.pending = this.pending.subarray(headerLength);
+        continue;
+      }
+
+      if (size.value === null) {
+        // Unknown-size leaf elements cannot be skipped safely
+        throw new Error("Unsupported unknown-size WebM element");
+      }
+      if (this.pending.byteLength < headerLength + size.value) break;
+
+      const body = this.pending.subarray(
+        headerLength,
+        headerLength + size.value
+      );
+      this.handleElement(id.value, body, packets);
+      this.pending = this.pending.subarray(headerLength + size.value);
+    }
+
+    return packets;
+  }
+
+  getHead(): OpusHead | null {
+    return this.head;
+  }
+
+  reset(): void {
+    this.pending = new Uint8Array(0);
+    this.head = null;
+    this.trackNumber = null;
+    this.entryTrackNumber = null;
+    this.entryIsOpus = false;
+  }
+
+  private handleElement(id: number, body: Uint8Array, out: Uint8Array[]): void {
+    switch (id) {
+      case TRACK_NUMBER:
+        this.entryTrackNumber = this.readUint(body);
+        this.maybeSelectTrack();
+        break;
+      case CODEC_ID:
+        this.entryIsOpus = String.fromCharCode(...body) === "A_OPUS";
+        this.maybeSelectTrack();
+        break;
+      case CODEC_PRIVATE:
+        if (this.entryIsOpus) {
+          this.head = parseOpusHead(body);
+        }
+        break;
+      case SIMPLE_BLOCK:
+      case BLOCK:
+        this.handleBlock(body, out);
+        break;
+      default:
+        // Not needed for audio extraction
+        break;
+    }
+  }
+
+  private maybeSelectTrack(): void {
+    if (
+      this.trackNumber === null &&
+      this.entryIsOpus &&
+      this.entryTrackNumber !== null
+    ) {
+      this.trackNumber = this.entryTrackNumber;
+    }
+  }
+
+  private handleBlock(body: Uint8Array, out: Uint8Array[]): void {
+    const saved = this.pending;
+    this.pending = body;
+    const track = this.readVint(0, true);
+    this.pending = saved;
+    if (!track || track.value === null) return;
+
+    if (this.trackNumber !== null && track.value !== this.trackNumber) {
+      return;
+    }
+
+    // Skip track number, 16-bit relative timecode and flags
+    const flags = body[track.length + 2];
+    if (flags & 0x06) {
+      throw new Error("Laced WebM blocks are not supported");
+    }
+    out.push(body.slice(track.length + 3));
+  }
+
+  /**
+   * Read an EBML variable-length integer from the pending buffer
+   * @param stripMarker - Remove the length marker bit (sizes) or keep it (IDs)
+   */
+  private readVint(
+    offset: number,
+    stripMarker: boolean
+  ): { value: number | null; length: number } | null {
+    if (offset >= this.pending.byteLength) return null;
+
+    const first = this.pending[offset];
+    let length = 1;
+    let mask = 0x80;
+    while (length <= 8 && !(first & mask)) {
+      mask >>= 1;
+      length++;
+    }
+    if (length > 8) {
+      throw new Error("Invalid EBML variable-length integer");
+    }
+    if (offset + length > this.pending.byteLength) return null;
+
+    let value = stripMarker ? first & (mask - 1) : first;
+    let allOnes = value === mask - 1;
+    for (let i = 1; i < length; i++) {
+      const byte = this.pending[offset + i];
+      value = value * 256 + byte;
+      allOnes = allOnes && byte === 0xff;
+    }
+
+    // All data bits set means "unknown size"
+    return { value: stripMarker && allOnes ? null : value, length };
+  }
+
+  private readUint(body: Uint8Array): number {
+    let value = 0;
+    for (let i = 0; i < body.byteLength; i++) {
+      value = value * 256 + body[i];
+    }
+    return value;
+  }
+}
+
+/**
+ * Decodes incremental chunks of compressed audio (framed Opus, Ogg/Opus or
+ * WebM/Opus) using the WebCodecs AudioDecoder.
+ *
+ * Decoded audio is emitted in order via the "data" event together with the
+ * turn ID of the chunk it came from.
+ */
+export class StreamingDecoder extends TypedEventEmitter<StreamingDecoderEvents> {
+  private codec: CompressedCodec;
+  private config: Required<StreamingDecoderConfig>;
+  private demuxer: OpusDemuxer | null;
+  private decoder: AudioDecoder | null = null;
+  private configuredHead: OpusHead | null = null;
+
+  // Decoder timestamps (microseconds) mapped to the turn they belong to
+  private pendingTurns: Map<number, string | undefined> = new Map();
+  private nextTimestamp = 0;
+  private lastTurnId: string | undefined = undefined;
+
+  constructor(codec: CompressedCodec, config: StreamingDecoderConfig = {}) {
+    super();
+    this.codec = codec;
+    this.config = {
+      sampleRate: config.sampleRate ?? 48000,
+      channels: config.channels ?? 1,
+    };
+    this.demuxer =
+      codec === "ogg-opus"
+        ? new OggOpusDemuxer()
+        : codec === "webm-opus"
+          ? new WebmOpusDemuxer()
+          : null;
+  }
+
+  /**
+   * Check if streaming decoding is available in this browser
+   */
+  static isSupported(): boolean {
+    return typeof AudioDecoder !== "undefined";
+  }
+
+  /**
+   * Get the codec this decoder handles
+   */
+  getCodec(): CompressedCodec {
+    return this.codec;
+  }
+
+  /**
+   * Decode the next chunk of the stream
+   * @param data - Compressed bytes (need not be aligned to packet boundaries for containers)
+   * @param turnId - Optional turn ID to tag decoded audio with
+   */
+  decode(data: ArrayBuffer, turnId?: string): void {
+    if (!StreamingDecoder.isSupported()) {
+      this.emit(
+        "error",
+        new Error("Compressed audio playback requires WebCodecs AudioDecoder")
+      );
+      return;
+    }
+
+    // A new turn starts a new stream
+    if (turnId !== this.lastTurnId) {
+      if (this.lastTurnId !== undefined) {
+        this.reset();
+      }
+      this.lastTurnId = turnId;
+    }
+
+    try {
+      const packets = this.demuxer
+        ? this.demuxer.push(new Uint8Array(data))
+        : parseOpusFrames(data);
+
+      for (const packet of packets) {
+        this.decodePacket(packet, turnId);
+      }
+    } catch (error) {
+      this.emit("error", error as Error);
+    }
+  }
+
+  /**
+   * Check if packets have been submitted whose audio hasn't come out yet
+   */
+  hasPendingOutput(): boolean {
+    return this.pendingTurns.size > 0;
+  }
+
+  /**
+   * Drop all buffered and in-flight audio (e.g. on interruption)
+   */
+  reset(): void {
+    this.demuxer?.reset();
+    this.pendingTurns.clear();
+    this.lastTurnId = undefined;
+    this.closeDecoder();
+  }
+
+  /**
+   * Release decoder resources
+   */
+  close(): void {
+    this.reset();
+    this.removeAllListeners();
+  }
+
+  private decodePacket(packet: Uint8Array, turnId?: string): void {
+    const decoder = this.ensureDecoder();
+    if (!decoder) return;
+
+    const timestamp = this.nextTimestamp;
+    // Timestamps only need to be unique to map output back to turns
+    this.nextTimestamp += 20000;
+    this.pendingTurns.set(timestamp, turnId);
+
+    decoder.decode(
+      new EncodedAudioChunk({
+        type: "key",
+        timestamp,
+        data: packet,
+      })
+    );
+  }
+
+  private ensureDecoder(): AudioDecoder | null {
+    const head = this.demuxer ? this.demuxer.getHead() : null;
+    if (this.demuxer && !head) {
+      // Wait for the stream header before decoding
+      return null;
+    }
+
+    if (this.decoder && head === this.configuredHead) {
+      return this.decoder;
+    }
+
+    this.closeDecoder();
+
+    const decoder = new AudioDecoder({
+      output: (audioData) => this.handleOutput(audioData),
+      error: (error) => {
+        // The error closed the decoder, dropping the packets still in it
+        if (this.decoder === decoder) {
+          this.pendingTurns.clear();
+          this.decoder = null;
+          this.configuredHead = null;
+        }
+        this.emit(
+          "error",
+          error instanceof Error ? error : new Error(String(error))
+        );
+      },
+    });
+
+    decoder.configure({
+      codec: "opus",
+      // Opus always decodes at 48 kHz unless a raw stream says otherwise
+      sampleRate: head ? 48000 : this.config.sampleRate,
+      numberOfChannels: head ? head.channels : this.config.channels,
+      description: head ? head.raw : undefined,
+    });
+
+    this.decoder = decoder;
+    this.configuredHead = head;
+    return decoder;
+  }
+
+  private handleOutput(audioData: AudioData): void {
+    try {
+      const turnId = this.pendingTurns.get(audioData.timestamp);
+      this.pendingTurns.delete(audioData.timestamp);
+
+      const channels: Float32Array[] = [];
+      for (let ch = 0; ch < audioData.numberOfChannels; ch++) {
+        const samples = new Float32Array(audioData.numberOfFrames);
+        audioData.copyTo(samples, { planeIndex: ch, format: "f32-planar" });
+        channels.push(samples);
+      }
+
+      this.emit("data", channels, audioData.sampleRate, turnId);
+    } finally {
+      audioData.close();
+    }
+  }
+
+  private closeDecoder(): void {
+    if (this.decoder && this.decoder.state !== "closed") {
+      this.decoder.close();
+    }
+    this.decoder = null;
+    this.configuredHead = null;
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Pitch-preserving time stretcher (WSOLA)
+ *
+ * Output is built from Hann-windowed frames overlap-added at a fixed
+ * synthesis hop, while frames are read from the input at hop × rate. Each
+ * frame's read position is nudged (within a small tolerance) to where the
+ * input best continues the previous frame's waveform, so voiced speech stays
+ * in phase and the pitch is unchanged.
+ *
+ * The stretcher is stateful like Resampler: a continuous signal can be fed
+ * in arbitrary chunks, and about one frame (25 ms) is held back until more
+ * input arrives; call flush() at the end of the stream. All channels share
+ * the alignment (computed on their mix), so stereo images are preserved.
+ * At rate 1 with nothing held back, input is passed through untouched.
+ */
+export class TimeStretcher {
+  private sampleRate: number;
+  private channels: number;
+  private rate: number;
+  private frameSize: number;
+  private hop: number;
+  private tolerance: number;
+  private searchStep: number;
+  private window: Float32Array;
+
+  // Input held back, with positions relative to its first sample
+  private input: Float32Array[];
+  private mix: Float32Array;
+  private length = 0;
+  private position = 0; // Nominal read position of the next frame
+  private continuation = -1; // Where the previous frame's waveform continues
+
+  // Second half of the previous frame, waiting for the next one to overlap it
+  private overlap: Float32Array[];
+
+  /**
+   * @param sampleRate - Sample rate of the signal
+   * @param channels - Number of planar channels
+   * @param rate - Speed factor (2 = twice as fast)
+   */
+  constructor(sampleRate: number, channels: number, rate = 1) {
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.rate = rate;
+
+    this.hop = Math.max(16, Math.round(sampleRate * 0.0125));
+    this.frameSize = this.hop * 2;
+    this.tolerance = Math.round(sampleRate * 0.008);
+    // Search coarsely at ~8 kHz resolution, then refine around the best match
+    this.searchStep = Math.max(1, Math.round(sampleRate / 8000));
+
+    // Periodic Hann window: overlapping halves sum to exactly 1
+    this.window = new Float32Array(this.frameSize);
+    for (let i = 0; i < this.frameSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.frameSize);
+    }
+
+    this.input = [];
+    this.overlap = [];
+    for (let ch = 0; ch < channels; ch++) {
+      this.input.push(new Float32Array(this.frameSize * 4));
+      this.overlap.push(new Float32Array(this.hop));
+    }
+    this.mix =
+      channels > 1 ? new Float32Array(this.frameSize * 4) : this.input[0];
+  }
+
+  /**
+   * Limit a speed factor to the range that still sounds natural (0.5-2)
+   */
+  static clampRate(rate: number): number {
+    return Math.max(0.5, Math.min(2, rate));
+  }
+
+  /**
+   * Set the speed factor for audio processed from now on
+   */
+  setRate(rate: number): void {
+    this.rate = rate;
+  }
+
+  /**
+   * Get the speed factor
+   */
+  getRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * Get the sample rate
+   */
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  /**
+   * Get the number of channels
+   */
+  getChannels(): number {
+    return this.channels;
+  }
+
+  /**
+   * Check if input is being held back (a stretched stream is in progress)
+   */
+  isActive(): boolean {
+    return this.continuation >= 0 || this.length > 0;
+  }
+
+  /**
+   * Stretch the next chunk of a continuous signal
+   * @param input - Planar samples, one array per channel
+   */
+  process(input: Float32Array[]): Float32Array[] {
+    if (this.rate === 1 && !this.isActive()) {
+      return input;
+    }
+    this.append(input);
+    return this.run(Infinity);
+  }
+
+  /**
+   * Drain the input held back (end of stream)
+   */
+  flush(): Float32Array[] {
+    if (!this.isActive()) {
+      return this.input.map(() => new Float32Array(0));
+    }
+
+    // Pad with silence so the frames covering the last input can be read
+    const end = this.length;
+    const padding = new Float32Array(this.frameSize * 2 + this.tolerance);
+    this.append(this.input.map(() => padding));
+
+    const frames = this.run(end);
+    const output = frames.map((samples, ch) => {
+      const tail = new Float32Array(samples.length + this.hop);
+      tail.set(samples, 0);
+      tail.set(this.overlap[ch], samples.length);
+      return tail;
+    });
+
+    this.reset();
+    return output;
+  }
+
+  /**
+   * Clear all state (start of a new, unrelated signal)
+   */
+  reset(): void {
+    this.length = 0;
+    this.position = 0;
+    this.continuation = -1;
+    this.overlap.forEach((samples) => samples.fill(0));
+  }
+
+  /**
+   * Emit frames while enough input is held back to choose their position
+   * @param end - Don't start frames at or after this input position
+   */
+  private run(end: number): Float32Array[] {
+    const hop = this.hop;
+    const analysisHop = hop * this.rate;
+    const maxFrames =
+      Math.max(0, Math.ceil((this.length - this.position) / analysisHop)) + 1;
+    const output = this.input.map(() => new Float32Array(maxFrames * hop));
+    let frames = 0;
+
+    while (frames < maxFrames) {
+      const nominal = Math.round(this.position);
+      if (
+        nominal >= end ||
+        nominal + this.tolerance + this.frameSize > this.length ||
+        this.continuation + this.frameSize > this.length
+      ) {
+        break;
+      }
+
+      const start =
+        this.continuation < 0
+          ? nominal
+          : this.findBestStart(nominal, this.continuation);
+      this.addFrame(start, output, frames * hop);
+
+      this.continuation = start + hop;
+      this.position += analysisHop;
+      frames++;
+    }
+
+    this.discardConsumed();
+    return output.map((samples) => samples.subarray(0, frames * hop));
+  }
+
+  /**
+   * Overlap-add the frame read at start and emit the first hop of it
+   */
+  private addFrame(
+    start: number,
+    output: Float32Array[],
+    offset: number
+  ): void {
+    const hop = this.hop;
+    const window = this.window;
+    const first = this.continuation < 0;
+
+    for (let ch = 0; ch < this.channels; ch++) {
+      const input = this.input[ch];
+      const overlap = this.overlap[ch];
+      const out = output[ch];
+
+      for (let i = 0; i < hop; i++) {
+        // The very first frame has nothing to overlap, so it starts unwindowed
+        out[offset + i] = first
+          ? input[start + i]
+          : overlap[i] + input[start + i] * window[i];
+        overlap[i] = input[start + hop + i] * window[hop + i];
+      }
+    }
+  }
+
+  /**
+   * Read position near nominal whose waveform best matches the natural
+   * continuation of the previous frame
+   */
+  private findBestStart(nominal: number, natural: number): number {
+    const low = Math.max(0, nominal - this.tolerance);
+    const high = nominal + this.tolerance;
+    const step = this.searchStep;
+
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let start = low; start <= high; start += step) {
+      const score = this.similarity(natural, start, step);
+      if (score > bestScore) {
+        bestScore = score;
+        best = start;
+      }
+    }
+
+    if (step > 1) {
+      const coarse = best;
+      bestScore = -Infinity;
+      for (
+        let start = Math.max(low, coarse - step + 1);
+        start <= Math.min(high, coarse + step - 1);
+        start++
+      ) {
+        const score = this.similarity(natural, start, 1);
+        if (score > bestScore) {
+          bestScore = score;
+          best = start;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Normalised cross-correlation of two frames of the mix
+   */
+  private similarity(
+    reference: number,
+    candidate: number,
+    stride: number
+  ): number {
+    const mix = this.mix;
+    let product = 0;
+    let energy = 0;
+    for (let i = 0; i < this.frameSize; i += stride) {
+      const sample = mix[candidate + i];
+      product += mix[reference + i] * sample;
+      energy += sample * sample;
+    }
+    return product / Math.sqrt(energy + 1e-9);
+  }
+
+  private append(input: Float32Array[]): void {
+    const count = input.length > 0 ? input[0].length : 0;
+    const needed = this.length + count;
+
+    if (needed > this.input[0].length) {
+      const size = Math.max(needed, this.input[0].length * 2);
+      this.input = this.input.map((samples) => {
+        const grown = new Float32Array(size);
+        grown.set(samples.subarray(0, this.length));
+        return grown;
+      });
+      if (this.channels > 1) {
+        const grown = new Float32Array(size);
+        grown.set(this.mix.subarray(0, this.length));
+        this.mix = grown;
+      } else {
+        this.mix = this.input[0];
+      }
+    }
+
+    for (let ch = 0; ch < this.channels; ch++) {
+      // Missing channels repeat the last one
+      const source = input[Math.min(ch, input.length - 1)];
+      this.input[ch].set(source.subarray(0, count), this.length);
+    }
+    if (this.channels > 1) {
+      for (let i = 0; i < count; i++) {
+        let sum = 0;
+        for (let ch = 0; ch < this.channels; ch++) {
+          sum += this.input[ch][this.length + i];
+        }
+        this.mix[this.length + i] = sum / this.channels;
+      }
+    }
+
+    this.length = needed;
+  }
+
+  /**
+   * Drop input that no future frame can read
+   */
+  private discardConsumed(): void {
+    let keepFrom = Math.round(this.position) - this.tolerance;
+    if (this.continuation >= 0) {
+      keepFrom = Math.min(keepFrom, this.continuation);
+    }
+    keepFrom = Math.max(0, Math.min(keepFrom, this.length));
+    if (keepFrom === 0) {
+      return;
+    }
+
+    for (const samples of this.input) {
+      samples.copyWithin(0, keepFrom, this.length);
+    }
+    if (this.channels > 1) {
+      this.mix.copyWithin(0, keepFrom, this.length);
+    }
+    this.length -= keepFrom;
+    this.position -= keepFrom;
+    if (this.continuation >= 0) {
+      this.continuation -= keepFrom;
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./utils";
+import type {
+  AudioFormat,
+  ProtocolAdapter,
+  ProtocolEvent,
+  ProtocolPayload,
+} from "./types";
+
+/**
+ * Twilio Media Streams adapter configuration
+ */
+export interface TwilioMediaStreamConfig {
+  /** Stream SID sent in every message (default: random "MZ..." SID) */
+  streamSid?: string;
+  /** Call SID in the start message (default: random "CA..." SID) */
+  callSid?: string;
+  /** Account SID in the start message (default: random "AC..." SID) */
+  accountSid?: string;
+  /** Custom parameters in the start message (e.g. caller ID, auth token) */
+  customParameters?: Record<string, string>;
+  /**
+   * Drop outbound media after a client interrupt until the backend's next
+   * mark or clear, so the rest of the interrupted reply doesn't play as a new
+   * turn (default: true)
+   */
+  dropMediaAfterInterrupt?: boolean;
+}
+
+interface MediaStreamMessage {
+  event?: string;
+  streamSid?: string;
+  media?: { payload?: string };
+  mark?: { name?: string };
+}
+
+const MULAW_8K: AudioFormat = {
+  sampleRate: 8000,
+  bitDepth: 8,
+  channels: 1,
+  codec: "mulaw",
+};
+
+function createSid(prefix: string): string {
+  let hex = "";
+  for (let i = 0; i < 32; i++) {
+    hex += Math.floor(Math.random() * 16).toString(16);
+  }
+  return prefix + hex;
+}
+
+/**
+ * Protocol adapter for Twilio Media Streams (bidirectional)
+ *
+ * Chatdio takes Twilio's side of the stream, so a browser softphone can use
+ * a backend written for phone calls:
+ * - connected and start (with the stream SID and 8 kHz mu-law format) are
+ *   sent when the socket opens; sendMessage({ type: "stop" }) ends the stream
+ * - Captured audio is sent as inbound media (base64 mu-law) with sequence
+ *   numbers, chunk numbers and timestamps
+ * - Outbound media plays; audio after start or a clear gets a new turn ID
+ * - clear interrupts playback
+ * - mark is echoed back once the audio before it has played, or right away
+ *   when playback is interrupted, as Twilio does
+ * - sendMessage({ type: "dtmf", digit }) sends a DTMF event
+ *
+ * The backend decides when to clear, so a client interrupt sends nothing.
+ * Instead, media the backend keeps sending is dropped until its next mark or
+ * clear (see dropMediaAfterInterrupt). Chatdio's own speech-start/speech-end and ping messages are dropped; any
+ * other message passes through. Other backend messages are emitted as
+ * messages.
+ */
+export class TwilioMediaStreamAdapter implements ProtocolAdapter {
+  readonly name = "twilio";
+  readonly sendFormat = MULAW_8K;
+  readonly receiveFormat = MULAW_8K;
+  private config: Required<TwilioMediaStreamConfig>;
+
+  // Stream state, reset per connection
+  private sequenceNumber = 0;
+  private chunk = 0;
+  private timestampMs = 0;
+
+  // Turn being received, and a counter for generating turn IDs
+  private turnId: string | null = null;
+  private turnCount = 0;
+  // Interrupted locally, and the backend hasn't sent a mark or clear since
+  private droppingMedia = false;
+
+  constructor(config: TwilioMediaStreamConfig = {}) {
+    this.config = {
+      streamSid: config.streamSid ?? createSid("MZ"),
+      callSid: config.callSid ?? createSid("CA"),
+      accountSid: config.accountSid ?? createSid("AC"),
+      customParameters: config.customParameters ?? {},
+      dropMediaAfterInterrupt: config.dropMediaAfterInterrupt ?? true,
+    };
+  }
+
+  /**
+   * Get the stream SID
+   */
+  getStreamSid(): string {
+    return this.config.streamSid;
+  }
+
+  open(): ProtocolPayload[] {
+    this.sequenceNumber = 0;
+    this.chunk = 0;
+    this.timestampMs = 0;
+    this.turnId = null;
+    this.droppingMedia = false;
+
+    return [
+      { event: "connected", protocol: "Call", version: "1.0.0" },
+      this.message("start", {
+        start: {
+          streamSid: this.config.streamSid,
+          accountSid: this.config.accountSid,
+          callSid: this.config.callSid,
+          tracks: ["inbound", "outbound"],
+          customParameters: this.config.customParameters,
+          mediaFormat: {
+            encoding: "audio/x-mulaw",
+            sampleRate: this.sendFormat.sampleRate,
+            channels: this.sendFormat.channels,
+          },
+        },
+      }),
+    ];
+  }
+
+  wrapAudio(data: ArrayBuffer): ProtocolPayload {
+    const payload = this.message("media", {
+      media: {
+        track: "inbound",
+        chunk: String(++this.chunk),
+        timestamp: String(Math.round(this.timestampMs)),
+        payload: arrayBufferToBase64(data),
+      },
+    });
+    // One byte per mu-law sample
+    this.timestampMs += (data.byteLength / this.sendFormat.sampleRate) * 1000;
+    return payload;
+  }
+
+  wrapMessage(message: unknown): ProtocolPayload[] {
+    if (typeof message !== "object" || message === null) {
+      return [message as ProtocolPayload];
+    }
+
+    const control = message as {
+      type?: string;
+      name?: string;
+      digit?: string;
+      reason?: string;
+    };
+    switch (control.type) {
+      case "mark":
+        return [this.message("mark", { mark: { name: control.name } })];
+      case "dtmf":
+        return [
+          this.message("dtmf", {
+            dtmf: { track: "inbound_track", digit: control.digit },
+          }),
+        ];
+      case "stop":
+        return [
+          this.message("stop", {
+            stop: {
+              accountSid: this.config.accountSid,
+              callSid: this.config.callSid,
+            },
+          }),
+        ];
+      case "interrupt":
+        // Audio the backend sends after a clear belongs to a new turn; after
+        // a client interrupt it's the rest of the interrupted reply
+        this.turnId = null;
+        if (control.reason !== "server") {
+          this.droppingMedia = this.config.dropMediaAfterInterrupt;
+        }
+        return [];
+      case "speech-start":
+      case "speech-end":
+      case "ping":
+        return [];
+      default:
+        return [message];
+    }
+  }
+
+  parseMessage(data: string | ArrayBuffer): ProtocolEvent[] {
+    if (typeof data !== "string") {
+      return [{ type: "message", data }];
+    }
+
+    let message: MediaStreamMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return [{ type: "message", data }];
+    }
+
+    switch (message.event) {
+      case "media": {
+        if (!message.media?.payload || this.droppingMedia) {
+          return [];
+        }
+        const events: ProtocolEvent[] = [];
+        if (!this.turnId) {
+          this.turnId = `twilio-turn-${++this.turnCount}`;
+          events.push({ type: "turn-start", turnId: this.turnId });
+        }
+        events.push({
+          type: "audio",
+          data: base64ToArrayBuffer(message.media.payload),
+          turnId: this.turnId,
+        });
+        return events;
+      }
+
+      case "mark":
+        this.droppingMedia = false;
+        return [
+          {
+            type: "mark",
+            name: message.mark?.name ?? "",
+            turnId: this.turnId ?? undefined,
+          },
+        ];
+
+      case "clear":
+        this.turnId = null;
+        this.droppingMedia = false;
+        return [{ type: "interrupt" }];
+    }
+
+    return [{ type: "message", data: message }];
+  }
+
+  private message(event: string, fields: object): ProtocolPayload {
+    return {
+      event,
+      sequenceNumber: String(++this.sequenceNumber),
+      ...fields,
+      streamSid: this.config.streamSid,
+    };
+  }
+}
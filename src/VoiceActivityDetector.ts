@@ -0,0 +1,285 @@
+import type { VADConfig, VADEvent } from "./types";
+
+/**
+ * Frame-based voice activity detector
+ *
+ * Each analysis frame is classified as speech-like when it is loud enough
+ * relative to an adaptive noise floor AND looks like voiced speech:
+ * - energy: dB above the tracked noise floor (and above an absolute minimum)
+ * - spectral flatness: tonal/harmonic speech is far less flat than fans,
+ *   hiss or keyboard clicks
+ * - zero-crossing rate: rejects broadband noise and clicks
+ *
+ * Speech starts after onsetMs of consecutive speech-like frames and ends
+ * after hangoverMs of consecutive non-speech frames, so short transients
+ * never trigger and short pauses between words don't end the utterance.
+ *
+ * The detector is pure and deterministic: it only depends on the samples it
+ * is fed (in any chunking), so it can be tested on recorded PCM without a browser.
+ *
+ * Note: this class is also injected into the capture AudioWorklet via
+ * toString(), so it must stay self-contained (no imports or module state).
+ */
+export class VoiceActivityDetector {
+  private config: Required<VADConfig>;
+  private sampleRate: number;
+  private frameSize: number;
+  private fftSize: number;
+
+  // Precomputed analysis tables
+  private window: Float32Array;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  private bitReverse: Uint32Array;
+  private minBin: number;
+  private maxBin: number;
+
+  // Scratch buffers
+  private frame: Float32Array;
+  private frameIndex = 0;
+  private real: Float32Array;
+  private imag: Float32Array;
+
+  // Detection state
+  private noiseFloorDb: number;
+  private speaking = false;
+  private speechFrames = 0;
+  private silenceFrames = 0;
+  private framesProcessed = 0;
+
+  constructor(sampleRate: number, config: VADConfig = {}) {
+    this.sampleRate = sampleRate;
+    this.config = {
+      frameMs: config.frameMs ?? 20,
+      snrThresholdDb: config.snrThresholdDb ?? 10,
+      minEnergyDb: config.minEnergyDb ?? -55,
+      maxSpectralFlatness: config.maxSpectralFlatness ?? 0.45,
+      maxZeroCrossingRate: config.maxZeroCrossingRate ?? 0.4,
+      onsetMs: config.onsetMs ?? 80,
+      hangoverMs: config.hangoverMs ?? 400,
+    };
+
+    this.frameSize = Math.max(
+      16,
+      Math.round((sampleRate * this.config.frameMs) / 1000)
+    );
+    this.fftSize = 1;
+    while (this.fftSize < this.frameSize) {
+      this.fftSize *= 2;
+    }
+
+    // Hann window over the frame (the rest of the FFT input is zero padding)
+    this.window = new Float32Array(this.frameSize);
+    for (let i = 0; i < this.frameSize; i++) {
+      this.window[i] =
+        0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (this.frameSize - 1));
+    }
+
+    const half = this.fftSize / 2;
+    this.cosTable = new Float32Array(half);
+    this.sinTable = new Float32Array(half);
+    for (let i = 0; i < half; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / this.fftSize);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / this.fftSize);
+    }
+
+    const bits = Math.round(Math.log2(this.fftSize));
+    this.bitReverse = new Uint32Array(this.fftSize);
+    for (let i = 0; i < this.fftSize; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.bitReverse[i] = reversed;
+    }
+
+    // Spectral features are measured over the speech band (80 Hz - 4 kHz)
+    const binHz = sampleRate / this.fftSize;
+    this.minBin = Math.max(1, Math.floor(80 / binHz));
+    this.maxBin = Math.max(
+      this.minBin + 1,
+      Math.min(half, Math.ceil(Math.min(4000, sampleRate / 2) / binHz))
+    );
+
+    this.frame = new Float32Array(this.frameSize);
+    this.real = new Float32Array(this.fftSize);
+    this.imag = new Float32Array(this.fftSize);
+    this.noiseFloorDb = this.config.minEnergyDb;
+  }
+
+  /**
+   * Analyze the next chunk of a continuous mono signal
+   * Returns the speech boundaries detected in this chunk (usually none).
+   */
+  process(samples: Float32Array): VADEvent[] {
+    const events: VADEvent[] = [];
+
+    for (let i = 0; i < samples.length; i++) {
+      this.frame[this.frameIndex++] = samples[i];
+
+      if (this.frameIndex >= this.frameSize) {
+        this.processFrame(events);
+        this.frameIndex = 0;
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Check if speech is currently active
+   */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Get the current noise floor estimate in dBFS
+   */
+  getNoiseFloor(): number {
+    return this.noiseFloorDb;
+  }
+
+  /**
+   * Clear all state (start of a new, unrelated signal)
+   */
+  reset(): void {
+    this.frameIndex = 0;
+    this.noiseFloorDb = this.config.minEnergyDb;
+    this.speaking = false;
+    this.speechFrames = 0;
+    this.silenceFrames = 0;
+    this.framesProcessed = 0;
+  }
+
+  private processFrame(events: VADEvent[]): void {
+    const frameMs = (this.frameSize / this.sampleRate) * 1000;
+    const frameStartMs = this.framesProcessed * frameMs;
+    this.framesProcessed++;
+
+    const energyDb = this.getEnergyDb();
+    const isSpeech =
+      energyDb >= this.config.minEnergyDb &&
+      energyDb - this.noiseFloorDb >= this.config.snrThresholdDb &&
+      this.getZeroCrossingRate() <= this.config.maxZeroCrossingRate &&
+      this.getSpectralFlatness() <= this.config.maxSpectralFlatness;
+
+    this.updateNoiseFloor(energyDb, isSpeech);
+
+    const onsetFrames = Math.max(1, Math.ceil(this.config.onsetMs / frameMs));
+    const hangoverFrames = Math.max(
+      1,
+      Math.ceil(this.config.hangoverMs / frameMs)
+    );
+
+    if (isSpeech) {
+      this.speechFrames++;
+      this.silenceFrames = 0;
+      if (!this.speaking && this.speechFrames >= onsetFrames) {
+        this.speaking = true;
+        events.push({
+          type: "speech-start",
+          // Report where the onset run began, not where it was confirmed
+          timeMs: frameStartMs - (this.speechFrames - 1) * frameMs,
+        });
+      }
+    } else {
+      this.silenceFrames++;
+      this.speechFrames = 0;
+      if (this.speaking && this.silenceFrames >= hangoverFrames) {
+        this.speaking = false;
+        events.push({
+          type: "speech-end",
+          timeMs: frameStartMs - (this.silenceFrames - 1) * frameMs,
+        });
+      }
+    }
+  }
+
+  private getEnergyDb(): number {
+    let sum = 0;
+    for (let i = 0; i < this.frameSize; i++) {
+      sum += this.frame[i] * this.frame[i];
+    }
+    return 10 * Math.log10(sum / this.frameSize + 1e-12);
+  }
+
+  private getZeroCrossingRate(): number {
+    let crossings = 0;
+    for (let i = 1; i < this.frameSize; i++) {
+      if (this.frame[i] >= 0 !== this.frame[i - 1] >= 0) {
+        crossings++;
+      }
+    }
+    return crossings / (this.frameSize - 1);
+  }
+
+  /**
+   * Geometric / arithmetic mean of the power spectrum over the speech band
+   * Close to 1 for white noise and clicks, close to 0 for harmonic speech.
+   */
+  private getSpectralFlatness(): number {
+    this.fft();
+
+    let logSum = 0;
+    let sum = 0;
+    const count = this.maxBin - this.minBin;
+    for (let k = this.minBin; k < this.maxBin; k++) {
+      const power =
+        this.real[k] * this.real[k] + this.imag[k] * this.imag[k] + 1e-12;
+      logSum += Math.log(power);
+      sum += power;
+    }
+
+    return Math.exp(logSum / count) / (sum / count);
+  }
+
+  /**
+   * Track the background level: follow drops quickly, rises slowly
+   * During speech the floor only creeps up, so a persistent new noise source
+   * is eventually absorbed without unvoiced sounds raising the floor.
+   */
+  private updateNoiseFloor(energyDb: number, isSpeech: boolean): void {
+    let rate: number;
+    if (energyDb < this.noiseFloorDb) {
+      rate = 0.3;
+    } else {
+      rate = isSpeech || this.speaking ? 0.002 : 0.02;
+    }
+    this.noiseFloorDb += (energyDb - this.noiseFloorDb) * rate;
+  }
+
+  /**
+   * In-place radix-2 FFT of the windowed, zero-padded frame
+   */
+  private fft(): void {
+    const n = this.fftSize;
+    const real = this.real;
+    const imag = this.imag;
+
+    real.fill(0);
+    imag.fill(0);
+    for (let i = 0; i < this.frameSize; i++) {
+      real[this.bitReverse[i]] = this.frame[i] * this.window[i];
+    }
+
+    for (let size = 2; size <= n; size *= 2) {
+      const halfSize = size / 2;
+      const step = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let j = 0; j < halfSize; j++) {
+          const cos = this.cosTable[j * step];
+          const sin = this.sinTable[j * step];
+          const a = start + j;
+          const b = a + halfSize;
+          const tr = real[b] * cos + imag[b] * sin;
+          const ti = imag[b] * cos - real[b] * sin;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+}
@@ -1,5 +1,19 @@
 import { TypedEventEmitter } from "./EventEmitter";
-import type { WebSocketConfig, AudioFormat, ConnectionState } from "./types";
+import { OpenAIRealtimeAdapter } from "./OpenAIRealtimeAdapter";
+import { GeminiLiveAdapter } from "./GeminiLiveAdapter";
+import { TwilioMediaStreamAdapter } from "./TwilioMediaStreamAdapter";
+import { encodeFrame, decodeFrame, SequenceTracker } from "./framing";
+import type { Frame } from "./framing";
+import type {
+  WebSocketConfig,
+  AudioFormat,
+  ConnectionState,
+  ProtocolAdapter,
+  ProtocolEvent,
+  ProtocolName,
+  ProtocolPayload,
+  SequenceGap,
+} from "./types";
 
 interface WebSocketBridgeEvents {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -10,6 +24,12 @@ interface WebSocketBridgeEvents {
   error: (error: Error) => void;
   audio: (data: ArrayBuffer, turnId?: string) => void;
   message: (data: unknown) => void;
+  /** Turn and interrupt events found by the protocol adapter */
+  protocol: (event: ProtocolEvent) => void;
+  /** Ping round-trip time measured */
+  latency: (rttMs: number) => void;
+  /** A binary frame arrived out of sequence (framing only) */
+  "sequence-gap": (gap: SequenceGap) => void;
   "state-change": (state: ConnectionState) => void;
 }
 
@@ -21,45 +41,105 @@ export interface ParsedAudioResult {
   turnId?: string;
 }
 
+/**
+ * Resolve the protocol option to an adapter (null for Chatdio's own protocol)
+ */
+function createProtocolAdapter(
+  protocol: ProtocolName | ProtocolAdapter | undefined
+): ProtocolAdapter | null {
+  if (protocol === undefined) {
+    return null;
+  }
+  if (typeof protocol !== "string") {
+    return protocol;
+  }
+  switch (protocol) {
+    case "openai-realtime":
+      return new OpenAIRealtimeAdapter();
+    case "gemini-live":
+      return new GeminiLiveAdapter();
+    case "twilio":
+      return new TwilioMediaStreamAdapter();
+    default:
+      throw new Error(`Unknown protocol: ${protocol}`);
+  }
+}
+
 /**
  * WebSocket bridge for streaming audio to/from a server
- * Handles reconnection, binary/text modes, and custom message formats
+ * Handles reconnection, binary/text modes, and custom message formats.
+ * With a protocol adapter, all traffic is translated by the adapter (custom
+ * wrapOutgoingAudio/parseIncomingAudio hooks still take precedence).
+ * The bridge is codec-agnostic: sendFormat/receiveFormat are applied by
+ * Chatdio's capture and playback, not here.
  */
 export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
   private ws: WebSocket | null = null;
   private config: Required<
-    Omit<WebSocketConfig, "wrapOutgoingAudio" | "parseIncomingAudio">
+    Omit<
+      WebSocketConfig,
+      "wrapOutgoingAudio" | "parseIncomingAudio" | "protocol"
+    >
   > &
     Pick<WebSocketConfig, "wrapOutgoingAudio" | "parseIncomingAudio">;
+  private protocol: ProtocolAdapter | null;
   private state: ConnectionState = "disconnected";
   private reconnectAttempts = 0;
   private reconnectTimeout: number | null = null;
   private pingInterval: number | null = null;
-  private lastPongTime = 0;
+  private pongTimer: number | null = null;
+  // Timestamps of pings still waiting for a pong, oldest first
+  private pendingPings: number[] = [];
+  private maxPendingPings = 16;
+  private latency: number | null = null;
   private intentionalClose = false;
 
   // Buffer for outgoing audio when disconnected
   private sendBuffer: ArrayBuffer[] = [];
   private maxSendBufferSize = 50;
 
+  // Binary framing: sequence numbers and timestamps restart per connection
+  private sendSequence = 0;
+  private receiveSequence = new SequenceTracker();
+  private openedAt = 0;
+
   constructor(config: WebSocketConfig) {
     super();
+    this.protocol = createProtocolAdapter(config.protocol);
     this.config = {
       url: config.url,
       autoReconnect: config.autoReconnect ?? true,
       maxReconnectAttempts: config.maxReconnectAttempts ?? 5,
       reconnectDelay: config.reconnectDelay ?? 1000,
-      sendFormat: config.sendFormat ?? {
-        sampleRate: 16000,
-        bitDepth: 16,
-        channels: 1,
-      },
-      receiveFormat: config.receiveFormat ?? {
-        sampleRate: 16000,
-        bitDepth: 16,
-        channels: 1,
-      },
+      pingInterval: config.pingInterval ?? 30000,
+      pongTimeout: config.pongTimeout ?? 0,
+      createPing:
+        config.createPing ?? ((timestamp) => ({ type: "ping", timestamp })),
+      isPong:
+        config.isPong ??
+        ((message) =>
+          typeof message === "object" &&
+          message !== null &&
+          (message as { type?: unknown }).type === "pong"),
+      getPongTimestamp:
+        config.getPongTimestamp ??
+        ((message) => (message as { timestamp?: unknown }).timestamp),
+      sendFormat: config.sendFormat ??
+        this.protocol?.sendFormat ?? {
+          sampleRate: 16000,
+          bitDepth: 16,
+          channels: 1,
+          codec: "pcm",
+        },
+      receiveFormat: config.receiveFormat ??
+        this.protocol?.receiveFormat ?? {
+          sampleRate: 16000,
+          bitDepth: 16,
+          channels: 1,
+          codec: "pcm",
+        },
       binaryMode: config.binaryMode ?? true,
+      framing: config.framing ?? false,
       wrapOutgoingAudio: config.wrapOutgoingAudio,
       parseIncomingAudio: config.parseIncomingAudio,
     };
@@ -79,6 +159,14 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
     return this.state === "connected" && this.ws?.readyState === WebSocket.OPEN;
   }
 
+  /**
+   * Get the last ping round-trip time in ms (null before the first pong on
+   * this connection)
+   */
+  getLatency(): number | null {
+    return this.latency;
+  }
+
   /**
    * Connect to the WebSocket server
    */
@@ -110,7 +198,7 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
 
         this.ws.onclose = (event) => {
           clearTimeout(connectionTimeout);
-          this.handleClose(event);
+          this.handleClose(event.code, event.reason);
         };
 
         this.ws.onerror = (event) => {
@@ -170,6 +258,15 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
 
       if (this.config.wrapOutgoingAudio) {
         payload = this.config.wrapOutgoingAudio(data);
+      } else if (this.protocol) {
+        payload = this.serialize(this.protocol.wrapAudio(data));
+      } else if (this.config.binaryMode && this.config.framing) {
+        payload = encodeFrame({
+          type: "audio",
+          sequence: this.sendSequence++,
+          timestamp: Date.now() - this.openedAt,
+          payload: data,
+        });
       } else if (this.config.binaryMode) {
         payload = data;
       } else {
@@ -197,14 +294,24 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
     }
 
     try {
-      const payload =
-        typeof message === "string" ? message : JSON.stringify(message);
-      this.ws!.send(payload);
+      const payloads = this.protocol
+        ? this.protocol.wrapMessage(message)
+        : [message as ProtocolPayload];
+      for (const payload of payloads) {
+        this.ws!.send(this.serialize(payload));
+      }
     } catch (error) {
       this.emit("error", error as Error);
     }
   }
 
+  /**
+   * Get the protocol adapter (null for Chatdio's own protocol)
+   */
+  getProtocol(): ProtocolAdapter | null {
+    return this.protocol;
+  }
+
   /**
    * Update the WebSocket URL (will reconnect if connected)
    */
@@ -249,22 +356,39 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
 
   private handleOpen(): void {
     this.reconnectAttempts = 0;
+    this.sendSequence = 0;
+    this.receiveSequence.reset();
+    this.openedAt = Date.now();
+    this.latency = null;
     this.setState("connected");
     this.emit("connected");
-    this.startPing();
+
+    // Session setup goes out before any buffered audio
+    if (this.protocol) {
+      try {
+        for (const payload of this.protocol.open()) {
+          this.ws!.send(this.serialize(payload));
+        }
+      } catch (error) {
+        this.emit("error", error as Error);
+      }
+    }
 
     // Flush send buffer
     while (this.sendBuffer.length > 0 && this.isConnected()) {
       const data = this.sendBuffer.shift()!;
       this.sendAudio(data);
     }
+
+    // After the session setup, which some protocols require first
+    this.startPing();
   }
 
-  private handleClose(event: CloseEvent): void {
+  private handleClose(code: number, reason: string): void {
     this.stopPing();
     this.ws = null;
 
-    this.emit("disconnected", event.code, event.reason || "Connection closed");
+    this.emit("disconnected", code, reason || "Connection closed");
 
     if (!this.intentionalClose && this.config.autoReconnect) {
       this.scheduleReconnect();
@@ -302,37 +426,20 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
         return;
       }
 
-      // Binary data - assume it's audio
+      if (this.protocol) {
+        this.handleProtocolMessage(this.protocol, event.data);
+        return;
+      }
+
+      // Binary data - audio, or a frame when framing is on
       if (event.data instanceof ArrayBuffer) {
-        this.emit("audio", event.data);
+        this.handleBinary(event.data);
         return;
       }
 
       // Text data - try to parse as JSON
       if (typeof event.data === "string") {
-        try {
-          const parsed = JSON.parse(event.data);
-
-          // Check for audio in JSON wrapper
-          if (parsed.type === "audio" && parsed.data) {
-            const audioData = this.base64ToArrayBuffer(parsed.data);
-            // Support turnId in JSON messages
-            this.emit("audio", audioData, parsed.turnId);
-            return;
-          }
-
-          // Handle ping/pong for keep-alive
-          if (parsed.type === "pong") {
-            this.lastPongTime = Date.now();
-            return;
-          }
-
-          // Non-audio message
-          this.emit("message", parsed);
-        } catch {
-          // Not JSON - emit as raw message
-          this.emit("message", event.data);
-        }
+        this.handleText(event.data);
         return;
       }
 
@@ -341,7 +448,11 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
         const reader = new FileReader();
         reader.onload = () => {
           if (reader.result instanceof ArrayBuffer) {
-            this.emit("audio", reader.result);
+            try {
+              this.handleBinary(reader.result);
+            } catch (error) {
+              this.emit("error", error as Error);
+            }
           }
         };
         reader.readAsArrayBuffer(event.data);
@@ -355,19 +466,123 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
     }
   }
 
+  private handleBinary(data: ArrayBuffer): void {
+    let frame: Frame | null = null;
+    if (this.config.framing) {
+      try {
+        frame = decodeFrame(data);
+      } catch {
+        // Not a frame (e.g. raw audio starting with the magic bytes)
+      }
+    }
+    if (!frame) {
+      this.emit("audio", data);
+      return;
+    }
+
+    const gap = this.receiveSequence.check(frame.sequence);
+    if (gap) {
+      this.emit("sequence-gap", gap);
+    }
+
+    if (frame.type === "message") {
+      this.handleText(new TextDecoder().decode(frame.payload));
+    } else if (!gap?.late) {
+      // Late audio would play out of order
+      this.emit("audio", frame.payload, frame.turnId);
+    }
+  }
+
+  private handleText(data: string): void {
+    try {
+      const parsed = JSON.parse(data);
+
+      // Check for audio in JSON wrapper
+      if (parsed.type === "audio" && parsed.data) {
+        const audioData = this.base64ToArrayBuffer(parsed.data);
+        // Support turnId in JSON messages
+        this.emit("audio", audioData, parsed.turnId);
+        return;
+      }
+
+      // Handle ping/pong for keep-alive
+      if (this.handlePong(parsed)) {
+        return;
+      }
+
+      // Non-audio message
+      this.emit("message", parsed);
+    } catch {
+      // Not JSON - emit as raw message
+      this.emit("message", data);
+    }
+  }
+
+  private handleProtocolMessage(
+    protocol: ProtocolAdapter,
+    data: string | ArrayBuffer
+  ): void {
+    for (const event of protocol.parseMessage(data)) {
+      switch (event.type) {
+        case "audio":
+          this.emit("audio", event.data, event.turnId);
+          break;
+        case "message":
+          if (!this.handlePong(event.data)) {
+            this.emit("message", event.data);
+          }
+          break;
+        case "error":
+          this.emit(
+            "error",
+            new Error(
+              event.code ? `${event.message} (${event.code})` : event.message
+            )
+          );
+          break;
+        default:
+          this.emit("protocol", event);
+      }
+    }
+  }
+
   private emitNonAudioMessage(data: unknown): void {
+    let message = data;
     if (typeof data === "string") {
       try {
-        const parsed = JSON.parse(data);
-        this.emit("message", parsed);
+        message = JSON.parse(data);
       } catch {
-        this.emit("message", data);
+        // Not JSON - emit as raw message
       }
-    } else {
-      this.emit("message", data);
+    }
+    if (!this.handlePong(message)) {
+      this.emit("message", message);
     }
   }
 
+  /**
+   * Record a pong and its round-trip time
+   * @returns Whether the message was a pong
+   */
+  private handlePong(message: unknown): boolean {
+    if (!this.config.isPong(message)) {
+      return false;
+    }
+
+    this.clearPongTimer();
+
+    // Time the ping the pong echoes; pings before it got no pong. A pong
+    // that doesn't echo a pending ping still shows the connection is alive.
+    const timestamp = this.config.getPongTimestamp(message);
+    const index = this.pendingPings.indexOf(timestamp as number);
+    if (index >= 0) {
+      this.pendingPings.splice(0, index + 1);
+      this.latency = Date.now() - (timestamp as number);
+      this.emit("latency", this.latency);
+    }
+    return true;
+  }
+
   private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.config.maxReconnectAttempts) {
       this.setState("error");
@@ -404,18 +619,81 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
   }
 
   private startPing(): void {
-    // Send periodic pings to keep connection alive
-    this.pingInterval = window.setInterval(() => {
-      if (this.isConnected()) {
-        try {
-          this.ws!.send(
-            JSON.stringify({ type: "ping", timestamp: Date.now() })
-          );
-        } catch {
-          // Ignore ping errors
-        }
+    this.pendingPings = [];
+    if (this.config.pingInterval <= 0) {
+      return;
+    }
+
+    // Send periodic pings to keep connection alive, starting right away so
+    // latency is known early
+    this.sendPing();
+    this.pingInterval = window.setInterval(
+      () => this.sendPing(),
+      this.config.pingInterval
+    );
+  }
+
+  private sendPing(): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    let payloads: ProtocolPayload[];
+    const now = Date.now();
+    try {
+      const ping = this.config.createPing(now);
+      payloads = this.protocol
+        ? this.protocol.wrapMessage(ping)
+        : [ping as ProtocolPayload];
+      for (const payload of payloads) {
+        this.ws!.send(this.serialize(payload));
       }
-    }, 30000); // Every 30 seconds
+    } catch {
+      // Ignore ping errors
+      return;
+    }
+
+    // Protocols without pings drop them, so there's no pong to wait for
+    if (payloads.length === 0) {
+      return;
+    }
+
+    this.pendingPings.push(now);
+    if (this.pendingPings.length > this.maxPendingPings) {
+      this.pendingPings.shift();
+    }
+
+    // The timeout runs from the oldest unanswered ping
+    if (this.config.pongTimeout > 0 && this.pongTimer === null) {
+      this.pongTimer = window.setTimeout(
+        () => this.handlePongTimeout(),
+        this.config.pongTimeout
+      );
+    }
+  }
+
+  private handlePongTimeout(): void {
+    this.pongTimer = null;
+    const ws = this.ws;
+    if (!ws) {
+      return;
+    }
+
+    // A half-open socket may take minutes to fire close, so don't wait for it
+    ws.onopen = ws.onclose = ws.onerror = ws.onmessage = null;
+    try {
+      ws.close(4000, "Pong timeout");
+    } catch {
+      // Already closing
+    }
+    this.handleClose(4000, "Pong timeout");
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer !== null) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
   }
 
   private stopPing(): void {
@@ -423,6 +701,7 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    this.clearPongTimer();
   }
 
   private setState(state: ConnectionState): void {
@@ -432,6 +711,12 @@ export class WebSocketBridge extends TypedEventEmitter<WebSocketBridgeEvents> {
     }
   }
 
+  private serialize(payload: ProtocolPayload): string | ArrayBuffer {
+    return typeof payload === "string" || payload instanceof ArrayBuffer
+      ? payload
+      : JSON.stringify(payload);
+  }
+
   private arrayBufferToBase64(buffer: ArrayBuffer): string {
     const bytes = new Uint8Array(buffer);
     let binary = "";
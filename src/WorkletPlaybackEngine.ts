@@ -0,0 +1,482 @@
+import { TypedEventEmitter } from "./EventEmitter";
+import { AudioRingBuffer } from "./AudioRingBuffer";
+import { createPlaybackWorkletBlobUrl } from "./playback-worklet-processor";
+
+interface WorkletPlaybackEngineEvents {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: (...args: any[]) => void;
+  start: () => void;
+  ended: () => void;
+}
+
+/**
+ * Worklet playback engine options
+ */
+export interface WorkletPlaybackEngineOptions {
+  /** Output channel count */
+  channels: number;
+  /** Audio to buffer before playback (re)starts, in seconds */
+  startDelay: number;
+  /** Ring buffer size in seconds (default: 10) */
+  capacitySeconds?: number;
+}
+
+// Contexts the processor module has been added to (a processor name can only
+// be registered once per context, and contexts may be shared)
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Called once a mark is played past (true) or its audio discarded (false)
+ */
+export type MarkCallback = (reached: boolean) => void;
+
+interface PendingAudio {
+  channels: Float32Array[];
+  offset: number;
+  turnId: string | null;
+  rate: number;
+  // Marks reached once this audio has played
+  marks?: MarkCallback[];
+}
+
+interface RingMark {
+  frame: number;
+  callback: MarkCallback;
+}
+
+interface PlayedSegment {
+  turnId: string | null;
+  start: number;
+  end: number;
+  // Seconds of source audio per second played (time stretching)
+  rate: number;
+}
+
+/**
+ * Playback engine backed by an AudioWorkletNode reading from a ring buffer
+ *
+ * Uses a SharedArrayBuffer when the page is cross-origin isolated (the main
+ * thread writes directly into the worklet's memory) and postMessage
+ * otherwise. Audio that doesn't fit in the ring is held on the main thread
+ * and written as the worklet drains it.
+ *
+ * Frame positions written per turn are remembered, so played duration per
+ * turn comes straight from the worklet's read position.
+ */
+export class WorkletPlaybackEngine extends TypedEventEmitter<WorkletPlaybackEngineEvents> {
+  private audioContext: AudioContext | null = null;
+  private node: AudioWorkletNode | null = null;
+  private options: Required<WorkletPlaybackEngineOptions>;
+  private capacity = 0;
+
+  // Shared mode: main-thread view of the worklet's ring buffer
+  private ring: AudioRingBuffer | null = null;
+
+  // Positions in frames since the engine started (not wrapped)
+  private framesWritten = 0;
+  private framesRead = 0;
+  private lastRawRead = 0;
+
+  private pending: PendingAudio[] = [];
+  private segments: PlayedSegment[] = [];
+  private maxSegments = 256;
+  private marks: RingMark[] = [];
+  private playing = false;
+
+  constructor(options: WorkletPlaybackEngineOptions) {
+    super();
+    this.options = {
+      channels: options.channels,
+      startDelay: options.startDelay,
+      capacitySeconds: options.capacitySeconds ?? 10,
+    };
+  }
+
+  /**
+   * Check if AudioWorklet playback is available
+   */
+  static isSupported(): boolean {
+    return (
+      typeof AudioWorkletNode !== "undefined" &&
+      typeof AudioContext !== "undefined" &&
+      "audioWorklet" in AudioContext.prototype
+    );
+  }
+
+  /**
+   * Check if the ring buffer can be shared with the worklet
+   */
+  static canShareMemory(): boolean {
+    return (
+      typeof SharedArrayBuffer !== "undefined" &&
+      (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated ===
+        true
+    );
+  }
+
+  /**
+   * Load the worklet and connect it to the destination node
+   */
+  async initialize(
+    audioContext: AudioContext,
+    destination: AudioNode
+  ): Promise<void> {
+    this.audioContext = audioContext;
+    this.capacity = Math.ceil(
+      audioContext.sampleRate * this.options.capacitySeconds
+    );
+
+    if (!loadedContexts.has(audioContext)) {
+      const blobUrl = createPlaybackWorkletBlobUrl();
+      try {
+        await audioContext.audioWorklet.addModule(blobUrl);
+      } finally {
+        URL.revokeObjectURL(blobUrl);
+      }
+      loadedContexts.add(audioContext);
+    }
+
+    let storage: { state: SharedArrayBuffer; data: SharedArrayBuffer } | null =
+      null;
+    if (WorkletPlaybackEngine.canShareMemory()) {
+      storage = AudioRingBuffer.allocateShared(
+        this.capacity,
+        this.options.channels
+      );
+      this.ring = new AudioRingBuffer(
+        this.capacity,
+        this.options.channels,
+        storage
+      );
+    }
+
+    this.node = new AudioWorkletNode(audioContext, "playback-processor", {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [this.options.channels],
+      processorOptions: {
+        capacity: this.capacity,
+        channels: this.options.channels,
+        storage,
+        startThreshold: Math.max(
+          128,
+          Math.round(this.options.startDelay * audioContext.sampleRate)
+        ),
+        // Roughly every 20 ms
+        statusInterval: Math.round(audioContext.sampleRate / 50),
+      },
+    });
+    this.node.port.onmessage = (event) => {
+      if (event.data.type === "status") {
+        this.handleStatus(event.data.framesRead, event.data.empty);
+      }
+    };
+    this.node.connect(destination);
+  }
+
+  /**
+   * Check if the shared-memory ring buffer is in use
+   */
+  isShared(): boolean {
+    return this.ring !== null;
+  }
+
+  /**
+   * Append planar samples at the context sample rate
+   * @param rate - Playback rate the samples were time-stretched by, so
+   *   played duration is reported in source time
+   */
+  write(channels: Float32Array[], turnId?: string, rate = 1): void {
+    if (!this.node || channels.length === 0 || channels[0].length === 0) {
+      return;
+    }
+
+    this.pending.push({ channels, offset: 0, turnId: turnId ?? null, rate });
+    this.flush();
+
+    if (!this.playing) {
+      this.playing = true;
+      this.emit("start");
+    }
+  }
+
+  /**
+   * Call back once the audio written so far has been played
+   * Calls back right away when nothing is buffered.
+   */
+  queueMark(callback: MarkCallback): void {
+    const last = this.pending[this.pending.length - 1];
+    if (last) {
+      if (!last.marks) last.marks = [];
+      last.marks.push(callback);
+    } else if (this.updateReadPosition() < this.framesWritten) {
+      this.marks.push({ frame: this.framesWritten, callback });
+    } else {
+      callback(true);
+    }
+  }
+
+  /**
+   * Discard all audio that hasn't been played yet (also ends a pause)
+   * @param fadeSeconds - Fade out what is playing over this long before the
+   *   cut (audio written afterwards is kept)
+   */
+  clear(fadeSeconds = 0): void {
+    if (!this.node) return;
+
+    // Nothing past the current read position was heard
+    const read = this.updateReadPosition();
+    this.segments = this.segments
+      .map((segment) => ({ ...segment, end: Math.min(segment.end, read) }))
+      .filter((segment) => segment.end > segment.start);
+
+    const marks = this.marks;
+    const pending = this.pending;
+    this.marks = [];
+    this.pending = [];
+    this.node.port.postMessage({
+      type: "clear",
+      position: this.framesWritten % 4294967296,
+      fadeFrames: Math.round(fadeSeconds * this.getSampleRate()),
+    });
+    this.playing = false;
+
+    // Marks already played past may not have been reported yet
+    for (const mark of marks) {
+      mark.callback(mark.frame <= read);
+    }
+    this.cancelMarks(pending);
+  }
+
+  /**
+   * Stop reading from the ring, keeping its audio for resume()
+   * @param fadeSeconds - Keep playing this long first (while the output fades)
+   */
+  pause(fadeSeconds = 0): void {
+    this.node?.port.postMessage({
+      type: "pause",
+      delayFrames: Math.round(fadeSeconds * this.getSampleRate()),
+    });
+  }
+
+  /**
+   * Continue reading from the ring after pause()
+   */
+  resume(): void {
+    this.node?.port.postMessage({ type: "resume" });
+  }
+
+  /**
+   * Discard unplayed audio of a turn
+   * The ring can only be cut at the read position, so if the turn has audio
+   * in the ring everything buffered is discarded.
+   */
+  clearTurn(turnId: string): void {
+    const read = this.updateReadPosition();
+    const inRing = this.segments.some(
+      (segment) => segment.turnId === turnId && segment.end > read
+    );
+
+    if (inRing) {
+      this.clear();
+    } else {
+      const removed = this.pending.filter((item) => item.turnId === turnId);
+      this.pending = this.pending.filter((item) => item.turnId !== turnId);
+      this.cancelMarks(removed);
+    }
+  }
+
+  /**
+   * Check if audio is playing or buffered
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Buffered (unplayed) audio in seconds
+   */
+  getBufferedDuration(): number {
+    return this.getBufferedFrames(null) / this.getSampleRate();
+  }
+
+  /**
+   * Buffered (unplayed) audio of a turn in seconds
+   */
+  getBufferedDurationForTurn(turnId: string): number {
+    return this.getBufferedFrames(turnId) / this.getSampleRate();
+  }
+
+  /**
+   * Audio of a turn that has been played, in seconds of source audio
+   */
+  getPlayedDuration(turnId: string): number {
+    const read = this.updateReadPosition();
+    let frames = 0;
+    for (const segment of this.segments) {
+      if (segment.turnId === turnId) {
+        frames +=
+          Math.max(0, Math.min(segment.end, read) - segment.start) *
+          segment.rate;
+      }
+    }
+    return frames / this.getSampleRate();
+  }
+
+  /**
+   * Disconnect the worklet and release resources
+   */
+  dispose(): void {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+    const marks = this.marks;
+    const pending = this.pending;
+    this.ring = null;
+    this.pending = [];
+    this.segments = [];
+    this.marks = [];
+    this.playing = false;
+    this.removeAllListeners();
+
+    for (const mark of marks) {
+      mark.callback(false);
+    }
+    this.cancelMarks(pending);
+  }
+
+  private getSampleRate(): number {
+    return this.audioContext?.sampleRate ?? 48000;
+  }
+
+  private getBufferedFrames(turnId: string | null): number {
+    const read = this.updateReadPosition();
+    let frames = 0;
+
+    for (const segment of this.segments) {
+      if (turnId === null || segment.turnId === turnId) {
+        frames += Math.max(0, segment.end - Math.max(segment.start, read));
+      }
+    }
+    for (const item of this.pending) {
+      if (turnId === null || item.turnId === turnId) {
+        frames += item.channels[0].length - item.offset;
+      }
+    }
+
+    return frames;
+  }
+
+  /**
+   * Convert a wrapped read position into frames since start
+   */
+  private advanceReadPosition(raw: number): number {
+    this.framesRead += (raw - this.lastRawRead) >>> 0;
+    this.lastRawRead = raw;
+    return this.framesRead;
+  }
+
+  /**
+   * Current read position (exact in shared mode, last status otherwise)
+   */
+  private updateReadPosition(): number {
+    if (this.ring) {
+      return this.advanceReadPosition(this.ring.getReadPosition());
+    }
+    return this.framesRead;
+  }
+
+  private handleStatus(rawRead: number, empty: boolean): void {
+    const read = this.advanceReadPosition(rawRead);
+    this.flush();
+
+    while (this.marks.length > 0 && this.marks[0].frame <= read) {
+      this.marks.shift()!.callback(true);
+    }
+
+    if (
+      empty &&
+      this.playing &&
+      this.pending.length === 0 &&
+      read >= this.framesWritten
+    ) {
+      this.playing = false;
+      this.emit("ended");
+    }
+  }
+
+  /**
+   * Move pending audio into the ring as space allows
+   */
+  private flush(): void {
+    if (!this.node) return;
+
+    while (this.pending.length > 0) {
+      const item = this.pending[0];
+      const free =
+        this.capacity - (this.framesWritten - this.updateReadPosition());
+      const frames = Math.min(free, item.channels[0].length - item.offset);
+      if (frames <= 0) {
+        return;
+      }
+
+      if (this.ring) {
+        this.ring.write(item.channels, item.offset, frames);
+      } else {
+        const channels = item.channels.map((samples) =>
+          samples.slice(item.offset, item.offset + frames)
+        );
+        this.node.port.postMessage(
+          { type: "write", channels },
+          channels.map((samples) => samples.buffer)
+        );
+      }
+
+      this.addSegment(item.turnId, frames, item.rate);
+      item.offset += frames;
+      if (item.offset >= item.channels[0].length) {
+        this.pending.shift();
+        for (const callback of item.marks ?? []) {
+          this.marks.push({ frame: this.framesWritten, callback });
+        }
+      }
+    }
+  }
+
+  private cancelMarks(items: PendingAudio[]): void {
+    for (const item of items) {
+      for (const callback of item.marks ?? []) {
+        callback(false);
+      }
+    }
+  }
+
+  private addSegment(
+    turnId: string | null,
+    frames: number,
+    rate: number
+  ): void {
+    const last = this.segments[this.segments.length - 1];
+    if (
+      last &&
+      last.turnId === turnId &&
+      last.rate === rate &&
+      last.end === this.framesWritten
+    ) {
+      last.end += frames;
+    } else {
+      this.segments.push({
+        turnId,
+        start: this.framesWritten,
+        end: this.framesWritten + frames,
+        rate,
+      });
+      if (this.segments.length > this.maxSegments) {
+        this.segments.shift();
+      }
+    }
+    this.framesWritten += frames;
+  }
+}
@@ -2,19 +2,78 @@
  * AudioWorklet Processor for microphone capture
  * This runs in a separate audio thread for better performance
  *
+ * Resampling, echo cancellation, voice activity detection, encoding and
+ * framing all happen here; the main thread only receives finished
+ * ArrayBuffers (transferred, not copied), speech boundary events and echo
+ * canceller statistics. The second input carries the echo reference.
+ *
  * Note: This file needs to be bundled separately or inlined as a Blob URL
  */
 
+import { Resampler } from "./Resampler";
+import { AudioFormatConverter } from "./AudioFormatConverter";
+import { CapturePipeline } from "./CapturePipeline";
+import { VoiceActivityDetector } from "./VoiceActivityDetector";
+import { EchoCanceller } from "./EchoCanceller";
+
 // The processor code as a string (will be loaded as a Blob URL)
 const js = String.raw;
 
+// Self-contained classes shared with the main thread are inlined via toString()
 export const audioWorkletProcessorCode = js`
+const Resampler = ${Resampler.toString()};
+const AudioFormatConverter = ${AudioFormatConverter.toString()};
+const CapturePipeline = ${CapturePipeline.toString()};
+const VoiceActivityDetector = ${VoiceActivityDetector.toString()};
+const EchoCanceller = ${EchoCanceller.toString()};
+
 class MicrophoneProcessor extends AudioWorkletProcessor {
-  constructor() {
+  constructor(options) {
     super();
-    this.bufferSize = 2048;
-    this.buffer = new Float32Array(this.bufferSize);
-    this.bufferIndex = 0;
+    const opts = (options && options.processorOptions) || {};
+    const outputSampleRate = opts.outputSampleRate || sampleRate;
+    const encoding = opts.encoding || 'pcm16';
+    const quality = opts.resampleQuality || 'medium';
+    const vad = opts.vad
+      ? new VoiceActivityDetector(outputSampleRate, opts.vad)
+      : null;
+    this.echoCanceller = opts.aec
+      ? new EchoCanceller(outputSampleRate, opts.aec)
+      : null;
+    this.reference = new Float32Array(128);
+    // Echo canceller statistics roughly every 250 ms
+    this.statsInterval = Math.round(sampleRate / 4);
+    this.sinceStats = 0;
+    this.started = false;
+    // Speech events are posted after the audio of the block they're in
+    this.vadEvents = [];
+
+    this.pipeline = new CapturePipeline(
+      {
+        inputChunkSize: opts.inputChunkSize || 2048,
+        outputFrameSize: opts.outputFrameSize || 0,
+      },
+      {
+        resampler:
+          outputSampleRate !== sampleRate
+            ? new Resampler(sampleRate, outputSampleRate, quality)
+            : null,
+        echoCanceller: this.echoCanceller,
+        referenceResampler:
+          this.echoCanceller && outputSampleRate !== sampleRate
+            ? new Resampler(sampleRate, outputSampleRate, quality)
+            : null,
+        encode: (samples) => AudioFormatConverter.encode(samples, encoding),
+        analyze: vad
+          ? (samples) => {
+              const events = vad.process(samples);
+              for (let i = 0; i < events.length; i++) {
+                this.vadEvents.push(events[i]);
+              }
+            }
+          : undefined,
+      }
+    );
   }
 
   process(inputs, outputs, parameters) {
@@ -23,21 +82,26 @@ class MicrophoneProcessor extends AudioWorkletProcessor {
       return true;
     }
 
+    // Lets the main thread timestamp chunks against the AudioContext clock
+    if (!this.started) {
+      this.started = true;
+      this.port.postMessage({ type: 'start', time: currentTime });
+    }
+
     const inputChannel = input[0];
-    
-    // Accumulate samples into buffer
-    for (let i = 0; i < inputChannel.length; i++) {
-      this.buffer[this.bufferIndex++] = inputChannel[i];
-      
-      if (this.bufferIndex >= this.bufferSize) {
-        // Send buffer to main thread
-        this.port.postMessage({
-          type: 'audio',
-          buffer: this.buffer.slice(),
-        });
-        this.bufferIndex = 0;
-      }
+    const reference = this.echoCanceller
+      ? this.getReference(inputs[1], inputChannel.length)
+      : undefined;
+
+    // Resample + encode, then hand the finished buffers to the main thread
+    const chunks = this.pipeline.push(inputChannel, reference);
+    for (let i = 0; i < chunks.length; i++) {
+      this.port.postMessage({ type: 'audio', buffer: chunks[i] }, [chunks[i]]);
     }
+    for (let i = 0; i < this.vadEvents.length; i++) {
+      this.port.postMessage({ type: 'vad', event: this.vadEvents[i] });
+    }
+    this.vadEvents.length = 0;
 
     // Calculate RMS level for this frame
     let sum = 0;
@@ -51,8 +115,37 @@ class MicrophoneProcessor extends AudioWorkletProcessor {
       level: level,
     });
 
+    if (this.echoCanceller) {
+      this.sinceStats += inputChannel.length;
+      if (this.sinceStats >= this.statsInterval) {
+        this.sinceStats = 0;
+        this.port.postMessage({ type: 'aec', stats: this.echoCanceller.getStats() });
+      }
+    }
+
     return true;
   }
+
+  /**
+   * Mono mix of the echo reference input (silence when nothing is connected)
+   */
+  getReference(input, length) {
+    if (this.reference.length !== length) {
+      this.reference = new Float32Array(length);
+    }
+    const reference = this.reference;
+    reference.fill(0);
+    if (!input || input.length === 0) {
+      return reference;
+    }
+    for (let ch = 0; ch < input.length; ch++) {
+      const samples = input[ch];
+      for (let i = 0; i < length; i++) {
+        reference[i] += samples[i] / input.length;
+      }
+    }
+    return reference;
+  }
 }
 
 registerProcessor('microphone-processor', MicrophoneProcessor);
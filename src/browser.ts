@@ -11,18 +11,64 @@ import { MicrophoneCapture, AudioFormatConverter } from "./MicrophoneCapture";
 import { AudioPlayback } from "./AudioPlayback";
 import { AudioRouter } from "./AudioRouter";
 import { WebSocketBridge } from "./WebSocketBridge";
+import { OpenAIRealtimeAdapter } from "./OpenAIRealtimeAdapter";
+import { GeminiLiveAdapter } from "./GeminiLiveAdapter";
+import { TwilioMediaStreamAdapter } from "./TwilioMediaStreamAdapter";
 import { ActivityAnalyzer, VisualizationUtils } from "./ActivityAnalyzer";
+import {
+  OpusEncoder,
+  frameOpusPackets,
+  parseOpusFrames,
+  getOpusPacketDuration,
+} from "./OpusEncoder";
+import { StreamingDecoder } from "./StreamingDecoder";
+import { Resampler } from "./Resampler";
+import { TimeStretcher } from "./TimeStretcher";
+import { JitterBuffer } from "./JitterBuffer";
+import { WorkletPlaybackEngine } from "./WorkletPlaybackEngine";
+import { AudioRingBuffer } from "./AudioRingBuffer";
+import { CapturePipeline } from "./CapturePipeline";
+import { VoiceActivityDetector } from "./VoiceActivityDetector";
+import { EchoCanceller } from "./EchoCanceller";
+import { SessionRecorder } from "./SessionRecorder";
 import {
   createWorkletBlobUrl,
   audioWorkletProcessorCode,
 } from "./audio-worklet-processor";
+import {
+  createPlaybackWorkletBlobUrl,
+  playbackWorkletProcessorCode,
+} from "./playback-worklet-processor";
+import {
+  createRecorderWorkletBlobUrl,
+  recorderWorkletProcessorCode,
+} from "./recorder-worklet-processor";
 import {
   arrayBufferToBase64,
   base64ToArrayBuffer,
   uint8ArrayToBase64,
   base64ToUint8Array,
   pcm16ToFloat32,
+  createAudioContext,
 } from "./utils";
+import {
+  isWav,
+  parseWavHeader,
+  parsePartialWavHeader,
+  decodeWav,
+  decodeWavSamples,
+  createWavHeader,
+  encodeWavSamples,
+  encodeWav,
+} from "./wav";
+import {
+  isFrame,
+  encodeFrame,
+  decodeFrame,
+  SequenceTracker,
+  FRAME_VERSION,
+  FRAME_HEADER_SIZE,
+} from "./framing";
 import { TypedEventEmitter } from "./EventEmitter";
 
 // Create the global namespace
@@ -37,12 +83,30 @@ const ConversationalAudio = {
   AudioPlayback,
   AudioRouter,
   WebSocketBridge,
+  OpenAIRealtimeAdapter,
+  GeminiLiveAdapter,
+  TwilioMediaStreamAdapter,
   ActivityAnalyzer,
   VisualizationUtils,
+  OpusEncoder,
+  StreamingDecoder,
+  Resampler,
+  TimeStretcher,
+  JitterBuffer,
+  WorkletPlaybackEngine,
+  AudioRingBuffer,
+  CapturePipeline,
+  VoiceActivityDetector,
+  EchoCanceller,
+  SessionRecorder,
 
   // Audio worklet
   createWorkletBlobUrl,
   audioWorkletProcessorCode,
+  createPlaybackWorkletBlobUrl,
+  playbackWorkletProcessorCode,
+  createRecorderWorkletBlobUrl,
+  recorderWorkletProcessorCode,
 
   // Utilities
   arrayBufferToBase64,
@@ -50,6 +114,24 @@ const ConversationalAudio = {
   uint8ArrayToBase64,
   base64ToUint8Array,
   pcm16ToFloat32,
+  createAudioContext,
+  isWav,
+  parseWavHeader,
+  parsePartialWavHeader,
+  decodeWav,
+  decodeWavSamples,
+  createWavHeader,
+  encodeWavSamples,
+  encodeWav,
+  isFrame,
+  encodeFrame,
+  decodeFrame,
+  SequenceTracker,
+  FRAME_VERSION,
+  FRAME_HEADER_SIZE,
+  frameOpusPackets,
+  parseOpusFrames,
+  getOpusPacketDuration,
 
   // Event emitter
   TypedEventEmitter,
@@ -74,14 +156,50 @@ export {
   AudioPlayback,
   AudioRouter,
   WebSocketBridge,
+  OpenAIRealtimeAdapter,
+  GeminiLiveAdapter,
+  TwilioMediaStreamAdapter,
   ActivityAnalyzer,
   VisualizationUtils,
+  OpusEncoder,
+  StreamingDecoder,
+  Resampler,
+  TimeStretcher,
+  JitterBuffer,
+  WorkletPlaybackEngine,
+  AudioRingBuffer,
+  CapturePipeline,
+  VoiceActivityDetector,
+  EchoCanceller,
+  SessionRecorder,
   createWorkletBlobUrl,
   audioWorkletProcessorCode,
+  createPlaybackWorkletBlobUrl,
+  playbackWorkletProcessorCode,
+  createRecorderWorkletBlobUrl,
+  recorderWorkletProcessorCode,
   arrayBufferToBase64,
   base64ToArrayBuffer,
   uint8ArrayToBase64,
   base64ToUint8Array,
   pcm16ToFloat32,
+  createAudioContext,
+  isWav,
+  parseWavHeader,
+  parsePartialWavHeader,
+  decodeWav,
+  decodeWavSamples,
+  createWavHeader,
+  encodeWavSamples,
+  encodeWav,
+  isFrame,
+  encodeFrame,
+  decodeFrame,
+  SequenceTracker,
+  FRAME_VERSION,
+  FRAME_HEADER_SIZE,
+  frameOpusPackets,
+  parseOpusFrames,
+  getOpusPacketDuration,
   TypedEventEmitter,
 };
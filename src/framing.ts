@@ -0,0 +1,201 @@
+/**
+ * Binary frame envelope for audio and messages
+ *
+ * Carries a turn ID, sequence number and timestamp with binary audio, so
+ * turn filtering doesn't need JSON/base64. Has no browser dependencies, so
+ * servers can use the same helpers in Node.
+ *
+ * Layout (big-endian):
+ * - 0: magic "CD" (2 bytes)
+ * - 2: version (1 byte)
+ * - 3: type (1 byte): 1 = audio, 2 = message (UTF-8 JSON)
+ * - 4: sequence number (uint32, wraps)
+ * - 8: timestamp in milliseconds (uint32, wraps; the sender picks the
+ *   origin, Chatdio uses the time since the connection opened)
+ * - 12: turn ID length in bytes (1 byte, 0 = no turn ID)
+ * - 13: turn ID (UTF-8), then the payload
+ */
+
+import type { SequenceGap } from "./types";
+
+/**
+ * Kind of payload a frame carries
+ */
+export type FrameType = "audio" | "message";
+
+/**
+ * Decoded frame
+ */
+export interface Frame {
+  type: FrameType;
+  /** Sequence number (uint32, wraps) */
+  sequence: number;
+  /** Timestamp in milliseconds (uint32, wraps) */
+  timestamp: number;
+  turnId?: string;
+  payload: ArrayBuffer;
+}
+
+/**
+ * Frame to encode (the payload may be any byte view)
+ */
+export interface FrameInput extends Omit<Frame, "payload"> {
+  payload: ArrayBuffer | Uint8Array;
+}
+
+/** Current envelope version */
+export const FRAME_VERSION = 1;
+
+/** Bytes before the turn ID */
+export const FRAME_HEADER_SIZE = 13;
+
+const MAGIC_0 = 0x43; // "C"
+const MAGIC_1 = 0x44; // "D"
+
+const TYPE_CODES: Record<FrameType, number> = { audio: 1, message: 2 };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function hasMagic(bytes: Uint8Array): boolean {
+  return (
+    bytes.byteLength >= FRAME_HEADER_SIZE &&
+    bytes[0] === MAGIC_0 &&
+    bytes[1] === MAGIC_1
+  );
+}
+
+function typeFromCode(code: number): FrameType | undefined {
+  return (Object.keys(TYPE_CODES) as FrameType[]).find(
+    (name) => TYPE_CODES[name] === code
+  );
+}
+
+/**
+ * Check if data holds a whole frame header: the magic, this version, a known
+ * type and the full turn ID
+ * Raw audio can still pass by chance, so a stream shouldn't mix the two.
+ */
+export function isFrame(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = toBytes(data);
+  return (
+    hasMagic(bytes) &&
+    bytes[2] === FRAME_VERSION &&
+    typeFromCode(bytes[3]) !== undefined &&
+    FRAME_HEADER_SIZE + bytes[12] <= bytes.byteLength
+  );
+}
+
+/**
+ * Encode a frame
+ * @throws If the turn ID is longer than 255 bytes
+ */
+export function encodeFrame(frame: FrameInput): ArrayBuffer {
+  const turnId = frame.turnId ? encoder.encode(frame.turnId) : null;
+  const turnIdLength = turnId ? turnId.byteLength : 0;
+  if (turnIdLength > 255) {
+    throw new Error("Frame turn ID is longer than 255 bytes");
+  }
+
+  const payload = toBytes(frame.payload);
+  const output = new Uint8Array(
+    FRAME_HEADER_SIZE + turnIdLength + payload.byteLength
+  );
+  const view = new DataView(output.buffer);
+
+  output[0] = MAGIC_0;
+  output[1] = MAGIC_1;
+  view.setUint8(2, FRAME_VERSION);
+  view.setUint8(3, TYPE_CODES[frame.type]);
+  view.setUint32(4, frame.sequence >>> 0);
+  view.setUint32(8, Math.round(frame.timestamp) >>> 0);
+  view.setUint8(12, turnIdLength);
+  if (turnId) {
+    output.set(turnId, FRAME_HEADER_SIZE);
+  }
+  output.set(payload, FRAME_HEADER_SIZE + turnIdLength);
+
+  return output.buffer;
+}
+
+/**
+ * Decode a frame
+ * @throws If the data isn't a frame, is truncated, or has an unknown
+ *   version or type
+ */
+export function decodeFrame(data: ArrayBuffer | Uint8Array): Frame {
+  const bytes = toBytes(data);
+  if (!hasMagic(bytes)) {
+    throw new Error("Not a Chatdio frame");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const version = view.getUint8(2);
+  if (version !== FRAME_VERSION) {
+    throw new Error(`Unsupported frame version: ${version}`);
+  }
+
+  const code = view.getUint8(3);
+  const type = typeFromCode(code);
+  if (!type) {
+    throw new Error(`Unknown frame type: ${code}`);
+  }
+
+  const turnIdLength = view.getUint8(12);
+  const payloadOffset = FRAME_HEADER_SIZE + turnIdLength;
+  if (payloadOffset > bytes.byteLength) {
+    throw new Error("Truncated frame");
+  }
+
+  return {
+    type,
+    sequence: view.getUint32(4),
+    timestamp: view.getUint32(8),
+    turnId:
+      turnIdLength > 0
+        ? decoder.decode(bytes.subarray(FRAME_HEADER_SIZE, payloadOffset))
+        : undefined,
+    payload: bytes.slice(payloadOffset).buffer,
+  };
+}
+
+/**
+ * Tracks received sequence numbers to detect lost or reordered frames
+ */
+export class SequenceTracker {
+  private expected: number | null = null;
+
+  /**
+   * Check the sequence number of a received frame
+   * The first frame is accepted whatever its number. A frame ahead of the
+   * expected one moves the expectation past it; a late frame doesn't.
+   * @returns The gap, or null when the frame is the expected one
+   */
+  check(sequence: number): SequenceGap | null {
+    const received = sequence >>> 0;
+    const expected = this.expected;
+    if (expected === null || received === expected) {
+      this.expected = (received + 1) >>> 0;
+      return null;
+    }
+
+    // Distance forward from the expected number, modulo 2^32
+    const ahead = (received - expected) >>> 0;
+    if (ahead < 0x80000000) {
+      this.expected = (received + 1) >>> 0;
+      return { expected, received, missing: ahead, late: false };
+    }
+    return { expected, received, missing: 0, late: true };
+  }
+
+  /**
+   * Forget the expected number (e.g. for a new connection)
+   */
+  reset(): void {
+    this.expected = null;
+  }
+}
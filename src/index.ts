@@ -7,11 +7,38 @@ export { MicrophoneCapture, AudioFormatConverter } from "./MicrophoneCapture";
 export { AudioPlayback } from "./AudioPlayback";
 export { AudioRouter } from "./AudioRouter";
 export { WebSocketBridge } from "./WebSocketBridge";
+export { OpenAIRealtimeAdapter } from "./OpenAIRealtimeAdapter";
+export { GeminiLiveAdapter } from "./GeminiLiveAdapter";
+export { TwilioMediaStreamAdapter } from "./TwilioMediaStreamAdapter";
 export { ActivityAnalyzer, VisualizationUtils } from "./ActivityAnalyzer";
+export {
+  OpusEncoder,
+  frameOpusPackets,
+  parseOpusFrames,
+  getOpusPacketDuration,
+} from "./OpusEncoder";
+export { StreamingDecoder } from "./StreamingDecoder";
+export { Resampler } from "./Resampler";
+export { TimeStretcher } from "./TimeStretcher";
+export { JitterBuffer } from "./JitterBuffer";
+export { WorkletPlaybackEngine } from "./WorkletPlaybackEngine";
+export { AudioRingBuffer } from "./AudioRingBuffer";
+export { CapturePipeline } from "./CapturePipeline";
+export { VoiceActivityDetector } from "./VoiceActivityDetector";
+export { EchoCanceller } from "./EchoCanceller";
+export { SessionRecorder } from "./SessionRecorder";
 export {
   createWorkletBlobUrl,
   audioWorkletProcessorCode,
 } from "./audio-worklet-processor";
+export {
+  createPlaybackWorkletBlobUrl,
+  playbackWorkletProcessorCode,
+} from "./playback-worklet-processor";
+export {
+  createRecorderWorkletBlobUrl,
+  recorderWorkletProcessorCode,
+} from "./recorder-worklet-processor";
 
 // Utilities
 export {
@@ -20,7 +47,26 @@ export {
   uint8ArrayToBase64,
   base64ToUint8Array,
   pcm16ToFloat32,
+  createAudioContext,
 } from "./utils";
+export {
+  isWav,
+  parseWavHeader,
+  parsePartialWavHeader,
+  decodeWav,
+  decodeWavSamples,
+  createWavHeader,
+  encodeWavSamples,
+  encodeWav,
+} from "./wav";
+export {
+  isFrame,
+  encodeFrame,
+  decodeFrame,
+  SequenceTracker,
+  FRAME_VERSION,
+  FRAME_HEADER_SIZE,
+} from "./framing";
 
 // Event emitter
 export { TypedEventEmitter } from "./EventEmitter";
@@ -28,17 +74,59 @@ export { TypedEventEmitter } from "./EventEmitter";
 // Types
 export type {
   SampleRate,
+  ResampleQuality,
+  VADConfig,
+  VADEvent,
+  AECConfig,
+  EchoCancellerStats,
   BitDepth,
   AudioFormat,
+  AudioCodec,
+  CaptureCodec,
+  CaptureEncoding,
   AudioDevice,
   DeviceManagerConfig,
   MicrophoneConfig,
   PlaybackConfig,
+  JitterBufferConfig,
+  PlaybackEngine,
+  JitterBufferStats,
+  SessionRecorderConfig,
+  RecordedTurn,
+  RecordedSpeech,
   WebSocketConfig,
+  ProtocolName,
+  ProtocolAdapter,
+  ProtocolEvent,
+  ProtocolPayload,
   ActivityAnalyzerConfig,
   AudioActivityData,
   ConnectionState,
   ChatdioConfig,
   ChatdioEvents,
+  SpeechGatingConfig,
+  BargeInConfig,
+  DuckingConfig,
+  BargeInInfo,
+  InterruptReason,
+  TurnInterruptInfo,
+  TurnEndInfo,
   ParsedAudioResult,
+  PlaybackMarkInfo,
+  SequenceGap,
 } from "./types";
+export type { OpusEncoderConfig } from "./OpusEncoder";
+export type { OpenAIRealtimeConfig } from "./OpenAIRealtimeAdapter";
+export type { GeminiLiveConfig } from "./GeminiLiveAdapter";
+export type { TwilioMediaStreamConfig } from "./TwilioMediaStreamAdapter";
+export type { WavFormat, WavHeader, DecodedWav } from "./wav";
+export type { Frame, FrameInput, FrameType } from "./framing";
+export type { WorkletPlaybackEngineOptions } from "./WorkletPlaybackEngine";
+export type {
+  CapturePipelineOptions,
+  CapturePipelineStages,
+} from "./CapturePipeline";
+export type {
+  CompressedCodec,
+  StreamingDecoderConfig,
+} from "./StreamingDecoder";
@@ -0,0 +1,178 @@
+/**
+ * AudioWorklet Processor for ring-buffer playback
+ * Plays audio straight from an AudioRingBuffer on the audio thread, so there
+ * is no per-chunk AudioBufferSourceNode scheduling.
+ *
+ * Messages from the main thread:
+ * - { type: 'write', channels } - samples to append (postMessage mode only)
+ * - { type: 'clear', position, fadeFrames } - fade out over fadeFrames, then
+ *   discard unread audio up to a write position (also ends a pause)
+ * - { type: 'pause', delayFrames } - stop reading after delayFrames
+ * - { type: 'resume' } - continue reading
+ *
+ * Messages to the main thread:
+ * - { type: 'status', framesRead, empty } - periodically and when playback runs dry
+ */
+
+import { AudioRingBuffer } from "./AudioRingBuffer";
+
+// The processor code as a string (will be loaded as a Blob URL)
+const js = String.raw;
+
+export const playbackWorkletProcessorCode = js`
+const AudioRingBuffer = ${AudioRingBuffer.toString()};
+
+class PlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions;
+    this.ring = new AudioRingBuffer(opts.capacity, opts.channels, opts.storage || undefined);
+    this.startThreshold = opts.startThreshold;
+    this.statusInterval = opts.statusInterval;
+    this.playing = false;
+    this.waited = 0;
+    this.sinceStatus = 0;
+    this.fadeLength = 0;
+    this.fadeRemaining = 0;
+    this.clearPosition = 0;
+    this.paused = false;
+    this.pauseDelay = -1;
+
+    this.port.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === 'write') {
+        const frames = message.channels[0].length;
+        this.ring.write(message.channels, 0, frames);
+      } else if (message.type === 'clear') {
+        // A clear during a fade-out just moves the cut
+        this.clearPosition = message.position;
+        if (this.fadeLength === 0) {
+          if (this.playing && message.fadeFrames > 0) {
+            this.fadeLength = message.fadeFrames;
+            this.fadeRemaining = message.fadeFrames;
+          } else {
+            this.clear();
+          }
+        }
+      } else if (message.type === 'pause') {
+        this.pauseDelay = message.delayFrames;
+      } else if (message.type === 'resume') {
+        this.paused = false;
+        this.pauseDelay = -1;
+      }
+    };
+  }
+
+  clear() {
+    this.ring.skipTo(this.clearPosition);
+    this.playing = false;
+    this.waited = 0;
+    this.fadeLength = 0;
+    this.paused = false;
+    this.pauseDelay = -1;
+    this.postStatus(true);
+  }
+
+  /**
+   * Play the last frames before a clear with a linear fade to silence
+   */
+  fadeOut(output, frames) {
+    const toCut = (this.clearPosition - this.ring.getReadPosition()) >>> 0;
+    const count = Math.min(frames, this.fadeRemaining, toCut);
+    const read = this.ring.read(output, count);
+    for (let ch = 0; ch < output.length; ch++) {
+      for (let i = 0; i < read; i++) {
+        output[ch][i] *= (this.fadeRemaining - i - 1) / this.fadeLength;
+      }
+    }
+    this.fadeRemaining -= read;
+    if (read < frames) {
+      this.clear();
+    }
+  }
+
+  postStatus(empty) {
+    this.sinceStatus = 0;
+    this.port.postMessage({
+      type: 'status',
+      framesRead: this.ring.getReadPosition(),
+      empty: empty,
+    });
+  }
+
+  process(inputs, outputs, parameters) {
+    const output = outputs[0];
+    const frames = output[0].length;
+
+    // Finish the blocks playing during the pause fade first
+    if (this.pauseDelay >= 0) {
+      if (this.pauseDelay < frames) {
+        this.paused = true;
+        this.pauseDelay = -1;
+      } else {
+        this.pauseDelay -= frames;
+      }
+    }
+    if (this.paused) {
+      this.tickStatus(frames);
+      return true;
+    }
+
+    // Prebuffer before (re)starting, but don't hold back a short tail forever
+    if (!this.playing && this.ring.availableRead() > 0) {
+      this.waited += frames;
+      if (
+        this.ring.availableRead() >= this.startThreshold ||
+        this.waited >= this.startThreshold
+      ) {
+        this.playing = true;
+        this.waited = 0;
+      }
+    }
+
+    if (this.playing && this.fadeLength > 0) {
+      this.fadeOut(output, frames);
+      return true;
+    }
+
+    if (this.playing) {
+      const read = this.ring.read(output, frames);
+      if (read < frames) {
+        // Ran dry: ramp from the last sample to silence instead of clicking
+        for (let ch = 0; ch < output.length; ch++) {
+          const last = read > 0 ? output[ch][read - 1] : 0;
+          const length = frames - read;
+          for (let i = 0; i < length; i++) {
+            output[ch][read + i] = last * (1 - (i + 1) / length);
+          }
+        }
+        this.playing = false;
+        this.postStatus(true);
+        return true;
+      }
+    }
+
+    this.tickStatus(frames);
+    return true;
+  }
+
+  tickStatus(frames) {
+    this.sinceStatus += frames;
+    if (this.sinceStatus >= this.statusInterval) {
+      this.postStatus(!this.playing && this.ring.availableRead() === 0);
+    }
+  }
+}
+
+registerProcessor('playback-processor', PlaybackProcessor);
+`;
+
+/**
+ * Creates a Blob URL for the playback AudioWorklet processor
+ */
+export function createPlaybackWorkletBlobUrl(): string {
+  const blob = new Blob([playbackWorkletProcessorCode], {
+    type: "application/javascript",
+  });
+  return URL.createObjectURL(blob);
+}
@@ -0,0 +1,78 @@
+/**
+ * AudioWorklet Processor for recording a node's output
+ * Mixes its input to mono and posts it in chunks, each tagged with the
+ * AudioContext frame of its first sample so it can be placed on a timeline.
+ *
+ * Messages from the main thread:
+ * - { type: 'flush' } - post the partial chunk now (end of recording)
+ *
+ * Messages to the main thread:
+ * - { type: 'audio', samples, frame, final } - recorded samples (transferred);
+ *   final is set on the answer to a flush, which may be empty
+ */
+
+// The processor code as a string (will be loaded as a Blob URL)
+const js = String.raw;
+
+export const recorderWorkletProcessorCode = js`
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.chunkFrames = opts.chunkFrames || 2048;
+    this.chunk = new Float32Array(this.chunkFrames);
+    this.index = 0;
+    this.startFrame = 0;
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'flush') {
+        this.post(true);
+      }
+    };
+  }
+
+  post(final) {
+    const samples = this.chunk.slice(0, this.index);
+    this.port.postMessage(
+      { type: 'audio', samples: samples, frame: this.startFrame, final: final },
+      [samples.buffer]
+    );
+    this.index = 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const frames = outputs[0] && outputs[0][0] ? outputs[0][0].length : 128;
+
+    for (let i = 0; i < frames; i++) {
+      if (this.index === 0) {
+        this.startFrame = currentFrame + i;
+      }
+      let sum = 0;
+      if (input) {
+        for (let ch = 0; ch < input.length; ch++) {
+          sum += input[ch][i];
+        }
+      }
+      this.chunk[this.index++] = input && input.length > 0 ? sum / input.length : 0;
+      if (this.index >= this.chunkFrames) {
+        this.post(false);
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('recorder-processor', RecorderProcessor);
+`;
+
+/**
+ * Creates a Blob URL for the recorder AudioWorklet processor
+ */
+export function createRecorderWorkletBlobUrl(): string {
+  const blob = new Blob([recorderWorkletProcessorCode], {
+    type: "application/javascript",
+  });
+  return URL.createObjectURL(blob);
+}
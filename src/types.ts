@@ -3,11 +3,50 @@
  */
 export type SampleRate = 8000 | 16000 | 22050 | 24000 | 44100 | 48000;
 
+/**
+ * Resampling quality presets
+ * - "low": linear interpolation (cheapest, aliases when downsampling)
+ * - "medium": windowed-sinc, 8 zero crossings, 64 phases
+ * - "high": windowed-sinc, 32 zero crossings, 256 phases
+ */
+export type ResampleQuality = "low" | "medium" | "high";
+
 /**
  * Supported bit depths for audio encoding
  */
 export type BitDepth = 8 | 16 | 24 | 32;
 
+/**
+ * Audio codecs supported on the wire
+ * - "pcm": raw linear PCM at the configured bit depth
+ * - "opus": length-prefixed Opus packets (see frameOpusPackets)
+ * - "ogg-opus": Ogg/Opus stream (playback only)
+ * - "webm-opus": WebM/Opus stream (playback only)
+ * - "mulaw": G.711 mu-law, 8 bits per sample (telephony)
+ * - "alaw": G.711 A-law, 8 bits per sample (telephony)
+ */
+export type AudioCodec =
+  | "pcm"
+  | "opus"
+  | "ogg-opus"
+  | "webm-opus"
+  | "mulaw"
+  | "alaw";
+
+/**
+ * Codecs the microphone can encode to
+ */
+export type CaptureCodec = Extract<
+  AudioCodec,
+  "pcm" | "opus" | "mulaw" | "alaw"
+>;
+
+/**
+ * Sample encodings produced by the capture pipeline
+ * ("float32" feeds the Opus encoder on the main thread)
+ */
+export type CaptureEncoding = "pcm16" | "mulaw" | "alaw" | "float32";
+
 /**
  * Audio format configuration
  */
@@ -15,6 +54,8 @@ export interface AudioFormat {
   sampleRate: SampleRate;
   bitDepth: BitDepth;
   channels: 1 | 2;
+  /** Codec of the audio data (defaults to "pcm") */
+  codec?: AudioCodec;
 }
 
 /**
@@ -51,8 +92,85 @@ export interface MicrophoneConfig {
   autoGainControl?: boolean;
   /** Specific device ID to use */
   deviceId?: string;
-  /** Buffer size for audio processing (power of 2) */
+  /** Buffer size for audio processing in device-rate samples (power of 2) */
   bufferSize?: 256 | 512 | 1024 | 2048 | 4096;
+  /**
+   * Emit fixed-duration frames (e.g. 20 or 100 ms) at the output sample rate
+   * instead of bufferSize-sized chunks. Does not affect Opus packet size (20 ms).
+   */
+  frameDurationMs?: number;
+  /** Codec for emitted audio data (default: "pcm" 16-bit) */
+  codec?: CaptureCodec;
+  /** Target Opus bitrate in bits per second (only used with codec "opus") */
+  opusBitrate?: number;
+  /** Resampler quality when the device rate differs from sampleRate (default: "medium") */
+  resampleQuality?: ResampleQuality;
+  /** Voice activity detection on the captured audio (default: false; Chatdio enables it for speechGating, ducking and bargeIn) */
+  vad?: boolean | VADConfig;
+  /**
+   * Software echo cancellation against the playback signal (set with
+   * setEchoReference); works alongside or instead of echoCancellation
+   * (default: false)
+   */
+  aec?: boolean | AECConfig;
+}
+
+/**
+ * Software acoustic echo canceller configuration
+ */
+export interface AECConfig {
+  /** Length of the echo path the adaptive filter models, in ms (default: 100) */
+  filterLengthMs?: number;
+  /** Delay of the echo behind the reference before the filter starts, in ms (default: 0) */
+  delayMs?: number;
+  /** NLMS adaptation step size, 0-1 (default: 0.5) */
+  stepSize?: number;
+  /**
+   * Mic peak relative to the recent reference peak above which the user is
+   * assumed to be talking and adaptation pauses (default: 0.5)
+   */
+  doubleTalkThreshold?: number;
+}
+
+/**
+ * Echo canceller statistics
+ */
+export interface EchoCancellerStats {
+  /** Echo return loss: reference level over the echo picked up by the mic, in dB */
+  erlDb: number;
+  /** Echo return loss enhancement: echo removed by the canceller, in dB */
+  erleDb: number;
+  /** Whether near-end speech is currently pausing adaptation */
+  doubleTalk: boolean;
+}
+
+/**
+ * Voice activity detector configuration
+ */
+export interface VADConfig {
+  /** Analysis frame length in milliseconds (default: 20) */
+  frameMs?: number;
+  /** Energy above the adaptive noise floor needed for speech, in dB (default: 10) */
+  snrThresholdDb?: number;
+  /** Frames quieter than this are never speech, in dBFS (default: -55) */
+  minEnergyDb?: number;
+  /** Spectral flatness (0-1) above which a frame is treated as noise (default: 0.45) */
+  maxSpectralFlatness?: number;
+  /** Zero-crossing rate (crossings per sample) above which a frame is treated as noise (default: 0.4) */
+  maxZeroCrossingRate?: number;
+  /** Continuous speech required before speech-start, in ms (default: 80) */
+  onsetMs?: number;
+  /** Continuous non-speech required before speech-end, in ms (default: 400) */
+  hangoverMs?: number;
+}
+
+/**
+ * Speech boundary reported by the voice activity detector
+ */
+export interface VADEvent {
+  type: "speech-start" | "speech-end";
+  /** Position of the boundary in the analyzed stream, in milliseconds */
+  timeMs: number;
 }
 
 /**
@@ -69,6 +187,102 @@ export interface PlaybackConfig {
   deviceId?: string;
   /** Buffer ahead time in seconds */
   bufferAhead?: number;
+  /** Codec of incoming audio; compressed codecs are decoded incrementally (default: "pcm") */
+  codec?: AudioCodec;
+  /**
+   * Resampler used when sampleRate differs from the AudioContext rate.
+   * "native" lets the browser resample AudioBuffers (default).
+   */
+  resampleQuality?: ResampleQuality | "native";
+  /**
+   * Adapt the buffer depth to measured network jitter instead of using a
+   * fixed bufferAhead, with underrun concealment (default: false)
+   */
+  jitterBuffer?: boolean | JitterBufferConfig;
+  /**
+   * How audio is scheduled (default: "buffer-source")
+   * - "buffer-source": one AudioBufferSourceNode per chunk
+   * - "worklet": an AudioWorklet reading from a ring buffer; falls back to
+   *   "buffer-source" if AudioWorklet is unavailable
+   */
+  engine?: PlaybackEngine;
+  /**
+   * Gain ramp applied when stopping, interrupting, pausing and resuming, in
+   * milliseconds; 0 cuts audio off immediately (default: 10)
+   */
+  fadeMs?: number;
+  /**
+   * Playback speed with pitch-preserving time stretching, 0.5-2 (default: 1)
+   */
+  playbackRate?: number;
+}
+
+/**
+ * Playback scheduling engine
+ */
+export type PlaybackEngine = "buffer-source" | "worklet";
+
+/**
+ * Adaptive jitter buffer configuration
+ */
+export interface JitterBufferConfig {
+  /** Smallest target buffer depth in milliseconds (default: 40) */
+  minDelayMs?: number;
+  /** Largest target buffer depth in milliseconds (default: 500) */
+  maxDelayMs?: number;
+  /** Fade applied when audio resumes after an underrun, in milliseconds (default: 5) */
+  fadeMs?: number;
+  /** Length of the reversed-tail concealment played on underrun, in milliseconds; 0 disables (default: 30) */
+  concealmentMs?: number;
+}
+
+/**
+ * Adaptive jitter buffer statistics
+ */
+export interface JitterBufferStats {
+  /** Smoothed variation of chunk arrival lateness, in milliseconds */
+  jitterMs: number;
+  /** Buffer depth playback (re)starts with, in milliseconds */
+  targetDelayMs: number;
+  /** Audio currently scheduled ahead of the playhead, in milliseconds */
+  bufferedMs: number;
+  /** Number of times playback ran dry mid-stream */
+  underruns: number;
+  /** Total concealment audio played, in milliseconds */
+  concealedMs: number;
+}
+
+/**
+ * Session recorder configuration
+ */
+export interface SessionRecorderConfig {
+  /** Sample rate of the recording (default: 24000) */
+  sampleRate?: number;
+}
+
+/**
+ * Assistant turn on a session recording's timeline
+ */
+export interface RecordedTurn {
+  turnId: string;
+  /** Offset of the turn start from the start of the recording, in milliseconds */
+  startMs: number;
+  /** Offset of the turn end (or the end of the recording if still open) */
+  endMs: number;
+  /** Whether the turn was interrupted */
+  interrupted: boolean;
+  /** Milliseconds of the turn's audio played (null if the turn was still open) */
+  playedMs: number | null;
+}
+
+/**
+ * Stretch of user speech (voice activity detector) on a session recording's timeline
+ */
+export interface RecordedSpeech {
+  /** Offset of speech start from the start of the recording, in milliseconds */
+  startMs: number;
+  /** Offset of speech end (or the end of the recording if still speaking) */
+  endMs: number;
 }
 
 /**
@@ -79,6 +293,77 @@ export interface ParsedAudioResult {
   turnId?: string;
 }
 
+/**
+ * Message for the socket (objects are sent as JSON)
+ */
+export type ProtocolPayload = string | ArrayBuffer | object;
+
+/**
+ * What a protocol adapter found in a server message
+ */
+export type ProtocolEvent =
+  /** Audio to play */
+  | { type: "audio"; data: ArrayBuffer; turnId?: string }
+  /** The server started sending a new turn */
+  | { type: "turn-start"; turnId: string }
+  /** The server finished sending a turn */
+  | { type: "turn-end"; turnId: string }
+  /** Stop playback now (e.g. the server heard the user start talking) */
+  | { type: "interrupt" }
+  /**
+   * A named point in the audio stream; Chatdio sends { type: "mark", name }
+   * back once the audio before it has played (or was interrupted)
+   */
+  | { type: "mark"; name: string; turnId?: string }
+  /** The server reported an error */
+  | { type: "error"; message: string; code?: string }
+  /** Anything else, emitted as a message */
+  | { type: "message"; data: unknown };
+
+/**
+ * Translates between Chatdio and a server's wire protocol
+ *
+ * Adapters are plain state machines: they never touch the socket, so they
+ * can be driven by a test with scripted messages.
+ */
+export interface ProtocolAdapter {
+  /** Protocol name */
+  readonly name: string;
+  /** Format the protocol expects for captured audio (default sendFormat) */
+  readonly sendFormat?: AudioFormat;
+  /** Format the protocol sends audio in (default receiveFormat) */
+  readonly receiveFormat?: AudioFormat;
+  /** Reset for a new connection and return the messages that set it up */
+  open(): ProtocolPayload[];
+  /** Wrap a chunk of captured audio */
+  wrapAudio(data: ArrayBuffer): ProtocolPayload;
+  /**
+   * Translate a message passed to sendMessage(), including Chatdio's own
+   * ({ type: "interrupt", turnId, playedMs }, "speech-start", "speech-end",
+   * "mark" and the keep-alive "ping"). Return [] to drop it.
+   */
+  wrapMessage(message: unknown): ProtocolPayload[];
+  /** Parse a message from the server */
+  parseMessage(data: string | ArrayBuffer): ProtocolEvent[];
+}
+
+/**
+ * Bundled protocol adapters
+ */
+export type ProtocolName = "openai-realtime" | "gemini-live" | "twilio";
+
+/**
+ * A frame sequence number other than the expected one
+ */
+export interface SequenceGap {
+  expected: number;
+  received: number;
+  /** Frames skipped: lost, or still to come out of order (0 when late) */
+  missing: number;
+  /** The frame is older than expected (reordered or duplicated) */
+  late: boolean;
+}
+
 /**
  * WebSocket bridge configuration
  */
@@ -91,12 +376,45 @@ export interface WebSocketConfig {
   maxReconnectAttempts?: number;
   /** Reconnection delay in ms */
   reconnectDelay?: number;
-  /** Audio format for sending */
+  /** Ping interval in ms (default: 30000, 0 = no pings) */
+  pingInterval?: number;
+  /**
+   * Close and reconnect when a ping gets no pong within this many ms
+   * (default: 0 = never; only set it for servers that answer pings)
+   */
+  pongTimeout?: number;
+  /** Build the ping message (default: { type: "ping", timestamp }) */
+  createPing?: (timestamp: number) => unknown;
+  /** Check if a received message is a pong (default: type "pong") */
+  isPong?: (message: unknown) => boolean;
+  /**
+   * Read the ping timestamp a pong echoes, for the round-trip time (default:
+   * its timestamp field). Pongs that don't echo a sent ping aren't timed.
+   */
+  getPongTimestamp?: (message: unknown) => unknown;
+  /**
+   * Audio format for sending. The bridge sends audio bytes as given; Chatdio
+   * captures in this format (sample rate and codec, e.g. G.711), so a
+   * standalone bridge needs audio already encoded.
+   */
   sendFormat?: AudioFormat;
-  /** Audio format for receiving */
+  /**
+   * Audio format for receiving. The bridge passes received bytes on as they
+   * are; Chatdio's playback decodes this format.
+   */
   receiveFormat?: AudioFormat;
   /** Send audio as binary or base64 */
   binaryMode?: boolean;
+  /**
+   * Wrap binary audio in Chatdio frames carrying a sequence number,
+   * timestamp and turn ID (binaryMode only; default: false). Binary messages
+   * that aren't valid frames are still played as raw audio, but the server
+   * should frame all of its audio: raw audio that happens to start with a
+   * valid header would be misread.
+   */
+  framing?: boolean;
+  /** Wire protocol: a bundled adapter's name or a custom adapter (default: Chatdio's own) */
+  protocol?: ProtocolName | ProtocolAdapter;
   /** Custom message wrapper for outgoing audio */
   wrapOutgoingAudio?: (data: ArrayBuffer) => string | ArrayBuffer;
   /** Custom message parser for incoming audio. Return ArrayBuffer or ParsedAudioResult with turnId */
@@ -171,6 +489,127 @@ export interface ChatdioConfig {
    * @default true
    */
   autoUnlockAudio?: boolean;
+  /**
+   * Only stream microphone audio while the voice activity detector hears
+   * speech, instead of sending every chunk (requires microphone VAD).
+   *
+   * @default false
+   */
+  speechGating?: boolean | SpeechGatingConfig;
+  /**
+   * Automatically interrupt the current turn when the user starts talking
+   * over playback (requires microphone VAD).
+   *
+   * @default false
+   */
+  bargeIn?: boolean | BargeInConfig;
+  /**
+   * Lower the playback volume while the user talks over it instead of
+   * interrupting straight away (requires microphone VAD; replaces bargeIn).
+   *
+   * @default false
+   */
+  ducking?: boolean | DuckingConfig;
+  /**
+   * AudioContext to use for capture and playback. By default Chatdio creates
+   * one on initialize() and closes it on dispose(); a provided context is
+   * left open.
+   */
+  audioContext?: AudioContext;
+}
+
+/**
+ * Automatic barge-in configuration
+ */
+export interface BargeInConfig {
+  /** Speech required after the detector confirms speech-start before interrupting, in ms (default: 300) */
+  minSpeechMs?: number;
+  /**
+   * Minimum mic level relative to the playback level, in dB. Quieter mic
+   * input during playback is treated as echo of the assistant (default: -15)
+   */
+  echoThresholdDb?: number;
+  /** Start a new turn after interrupting (default: true) */
+  startNewTurn?: boolean;
+}
+
+/**
+ * Playback ducking configuration
+ */
+export interface DuckingConfig {
+  /** Playback gain multiplier while the user is talking, 0-1 (default: 0.3) */
+  level?: number;
+  /** Time to ramp down once speech starts, in ms (default: 50) */
+  attackMs?: number;
+  /** Time to ramp back up once speech ends, in ms (default: 400) */
+  releaseMs?: number;
+  /**
+   * Interrupt the turn if the user is still talking this long after speech
+   * started, in ms; 0 never interrupts (default: 1500)
+   */
+  interruptAfterMs?: number;
+  /** Echo rejection for the interrupt, as in BargeInConfig (default: -15) */
+  echoThresholdDb?: number;
+  /** Start a new turn after interrupting (default: true) */
+  startNewTurn?: boolean;
+}
+
+/**
+ * Why a turn was interrupted
+ */
+export type InterruptReason = "manual" | "barge-in" | "server";
+
+/**
+ * Details passed with turn:interrupted
+ */
+export interface TurnInterruptInfo {
+  reason: InterruptReason;
+  /** Milliseconds of the turn's audio actually played before the interruption */
+  playedMs: number;
+}
+
+/**
+ * Details passed with turn:ended
+ */
+export interface TurnEndInfo {
+  /** Milliseconds of the turn's audio played when the turn ended */
+  playedMs: number;
+}
+
+/**
+ * Playback mark details
+ */
+export interface PlaybackMarkInfo {
+  /** Turn the mark was queued for */
+  turnId?: string;
+  /** The audio before the mark was discarded (interrupt, stop or clear) */
+  cancelled: boolean;
+}
+
+/**
+ * Details passed with barge-in
+ */
+export interface BargeInInfo {
+  /** Turn that was interrupted (null if playback had no turn) */
+  turnId: string | null;
+  /** Average mic level while the user was talking, in dBFS */
+  micLevelDb: number;
+  /** Average playback level over the same window, in dBFS */
+  playbackLevelDb: number;
+}
+
+/**
+ * Gated (send-only-when-speaking) streaming configuration
+ */
+export interface SpeechGatingConfig {
+  /**
+   * Audio kept from before speech-start and sent first, in milliseconds.
+   * Should exceed the VAD onset time so the first syllable isn't clipped.
+   * (default: 300)
+   */
+  preRollMs?: number;
+  /** Send { type: "speech-start" } / { type: "speech-end" } messages to the server (default: true) */
+  controlMessages?: boolean;
 }
 
 /**
@@ -195,6 +634,12 @@ export interface ChatdioEvents {
   "mic:device-changed": (deviceId: string) => void;
   /** Microphone is restarting (after device change or recovery) */
   "mic:restarting": () => void;
+  /** Voice activity detector detected the start of speech */
+  "mic:speech-start": (event: VADEvent) => void;
+  /** Voice activity detector detected the end of speech */
+  "mic:speech-end": (event: VADEvent) => void;
+  /** Periodic echo canceller statistics while playback is heard (microphone aec only) */
+  "mic:echo-stats": (stats: EchoCancellerStats) => void;
 
   /** Playback started */
   "playback:start": () => void;
@@ -206,6 +651,12 @@ export interface ChatdioEvents {
   "playback:error": (error: Error) => void;
   /** Playback activity update */
   "playback:activity": (data: AudioActivityData) => void;
+  /** Playback ran dry mid-stream (adaptive jitter buffer only) */
+  "playback:underrun": (stats: JitterBufferStats) => void;
+  /** Periodic jitter buffer statistics while playing (adaptive jitter buffer only) */
+  "playback:jitter-stats": (stats: JitterBufferStats) => void;
+  /** Playback reached a mark queued with queueMark(), or its audio was discarded */
+  "playback:mark": (name: string, info: PlaybackMarkInfo) => void;
 
   /** WebSocket connected */
   "ws:connected": () => void;
@@ -219,6 +670,10 @@ export interface ChatdioEvents {
   "ws:audio": (data: ArrayBuffer, turnId?: string) => void;
   /** WebSocket received non-audio message */
   "ws:message": (data: unknown) => void;
+  /** Ping round-trip time measured */
+  "ws:latency": (rttMs: number) => void;
+  /** A binary frame arrived out of sequence (framing only; late audio is dropped) */
+  "ws:sequence-gap": (gap: SequenceGap) => void;
 
   /** Device list changed */
   "device:changed": (devices: AudioDevice[]) => void;
@@ -232,9 +687,13 @@ export interface ChatdioEvents {
   /** New turn started */
   "turn:started": (turnId: string, previousTurnId: string | null) => void;
   /** Turn was interrupted (barge-in) */
-  "turn:interrupted": (turnId: string) => void;
+  "turn:interrupted": (turnId: string, info: TurnInterruptInfo) => void;
+  /** User talked over playback and the turn was interrupted automatically */
+  "barge-in": (info: BargeInInfo) => void;
+  /** Playback volume was lowered (true) or restored (false) by ducking */
+  "playback:ducked": (ducked: boolean) => void;
   /** Turn ended normally */
-  "turn:ended": (turnId: string) => void;
+  "turn:ended": (turnId: string, info: TurnEndInfo) => void;
 }
 
 /**
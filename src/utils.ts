@@ -65,3 +65,31 @@ export function base64ToUint8Array(base64: string): Uint8Array {
 export function pcm16ToFloat32(pcm16: ArrayBuffer): Float32Array {
   return Float32Array.from(new Int16Array(pcm16), (x) => x / 32768);
 }
+
+/**
+ * Create an AudioContext (handles the Safari prefix)
+ * @param options - Options passed to the AudioContext constructor
+ */
+export function createAudioContext(
+  options?: AudioContextOptions
+): AudioContext {
+  const AudioContextClass =
+    window.AudioContext ||
+    (window as unknown as { webkitAudioContext: typeof AudioContext })
+      .webkitAudioContext;
+  if (!AudioContextClass) {
+    throw new Error("Web Audio API not supported");
+  }
+  return new AudioContextClass(options);
+}
+
+/**
+ * Join two byte arrays (returns the second one when the first is empty)
+ */
+export function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.byteLength === 0) return b;
+  const out = new Uint8Array(a.byteLength + b.byteLength);
+  out.set(a, 0);
+  out.set(b, a.byteLength);
+  return out;
+}
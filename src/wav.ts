@@ -0,0 +1,377 @@
+/**
+ * WAV (RIFF) encoding and decoding
+ *
+ * Handles integer PCM (8-bit unsigned, 16/24/32-bit signed) and 32-bit
+ * float samples, plain or WAVE_FORMAT_EXTENSIBLE headers, any channel count,
+ * and streamed files whose header doesn't know the data length yet.
+ */
+
+import type { BitDepth } from "./types";
+
+/**
+ * Sample format of a WAV file
+ */
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  /** Bits per sample (8-bit is unsigned, as WAV stores it) */
+  bitDepth: BitDepth;
+  /** IEEE float samples (32-bit only) instead of integers */
+  float: boolean;
+}
+
+/**
+ * Parsed WAV header
+ */
+export interface WavHeader {
+  format: WavFormat;
+  /** Byte offset of the first sample */
+  dataOffset: number;
+  /** Byte length of the sample data, or null when unknown (streaming) */
+  dataLength: number | null;
+}
+
+/**
+ * Decoded WAV file
+ */
+export interface DecodedWav {
+  format: WavFormat;
+  /** Planar samples, one array per channel */
+  channels: Float32Array[];
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Data size streaming encoders write when the length isn't known yet (some
+// write 0 instead)
+const UNKNOWN_SIZE = 0xffffffff;
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(
+    bytes[offset],
+    bytes[offset + 1],
+    bytes[offset + 2],
+    bytes[offset + 3]
+  );
+}
+
+function writeTag(view: DataView, offset: number, tag: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, tag.charCodeAt(i));
+  }
+}
+
+/**
+ * Check if data starts with a RIFF/WAVE header
+ */
+export function isWav(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = toBytes(data);
+  return (
+    bytes.byteLength >= 12 &&
+    readTag(bytes, 0) === "RIFF" &&
+    readTag(bytes, 8) === "WAVE"
+  );
+}
+
+/**
+ * Parse a WAV header
+ * The data may be just the start of a file, as long as it reaches the first
+ * sample. Chunks other than "fmt " and "data" are skipped.
+ * @throws If the data isn't a WAV file, the header is incomplete or the
+ *   sample format isn't supported
+ */
+export function parseWavHeader(data: ArrayBuffer | Uint8Array): WavHeader {
+  const header = parsePartialWavHeader(data);
+  if (!header) {
+    throw new Error("Incomplete WAV header");
+  }
+  return header;
+}
+
+/**
+ * Parse a WAV header that may still be arriving (e.g. split across stream
+ * chunks)
+ * @returns The header, or null if the data doesn't reach the first sample yet
+ * @throws If the data isn't a WAV file or the sample format isn't supported
+ */
+export function parsePartialWavHeader(
+  data: ArrayBuffer | Uint8Array
+): WavHeader | null {
+  const bytes = toBytes(data);
+  if (!isWav(bytes)) {
+    throw new Error("Not a WAV file");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      if (body + 16 > bytes.byteLength) {
+        break;
+      }
+      format = parseFormat(view, body, size);
+    } else if (id === "data") {
+      if (!format) {
+        throw new Error("WAV data chunk before fmt chunk");
+      }
+      return {
+        format,
+        dataOffset: body,
+        dataLength: size === 0 || size === UNKNOWN_SIZE ? null : size,
+      };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
+
+function parseFormat(view: DataView, offset: number, size: number): WavFormat {
+  let tag = view.getUint16(offset, true);
+  const channels = view.getUint16(offset + 2, true);
+  const sampleRate = view.getUint32(offset + 4, true);
+  const bitDepth = view.getUint16(offset + 14, true);
+
+  // The actual format is the first two bytes of the sub-format GUID
+  if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+    tag = view.getUint16(offset + 24, true);
+  }
+
+  const float = tag === WAVE_FORMAT_IEEE_FLOAT;
+  if (tag !== WAVE_FORMAT_PCM && !float) {
+    throw new Error(`Unsupported WAV format tag: 0x${tag.toString(16)}`);
+  }
+  if (
+    float ? bitDepth !== 32 : ![8, 16, 24, 32].includes(bitDepth as BitDepth)
+  ) {
+    throw new Error(
+      `Unsupported WAV bit depth: ${bitDepth}${float ? " (float)" : ""}`
+    );
+  }
+  if (channels === 0) {
+    throw new Error("WAV file has no channels");
+  }
+
+  return { sampleRate, channels, bitDepth: bitDepth as BitDepth, float };
+}
+
+/**
+ * Decode a complete WAV file (or the start of a streamed one)
+ * Data past the end of the buffer is ignored, as is a trailing partial frame.
+ */
+export function decodeWav(data: ArrayBuffer | Uint8Array): DecodedWav {
+  const bytes = toBytes(data);
+  const header = parseWavHeader(bytes);
+  const end =
+    header.dataLength === null
+      ? bytes.byteLength
+      : Math.min(bytes.byteLength, header.dataOffset + header.dataLength);
+
+  return {
+    format: header.format,
+    channels: decodeWavSamples(
+      bytes.subarray(header.dataOffset, end),
+      header.format
+    ),
+  };
+}
+
+/**
+ * Decode headerless WAV sample data (e.g. the chunks of a stream after the
+ * one carrying the header)
+ * @returns Planar samples; a trailing partial frame is ignored
+ */
+export function decodeWavSamples(
+  data: ArrayBuffer | Uint8Array,
+  format: WavFormat
+): Float32Array[] {
+  const bytes = toBytes(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sampleBytes = format.bitDepth / 8;
+  const frameBytes = sampleBytes * format.channels;
+  const frames = Math.floor(bytes.byteLength / frameBytes);
+
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < format.channels; ch++) {
+    channels.push(new Float32Array(frames));
+  }
+
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < format.channels; ch++) {
+      channels[ch][i] = readSample(
+        view,
+        i * frameBytes + ch * sampleBytes,
+        format
+      );
+    }
+  }
+
+  return channels;
+}
+
+function readSample(view: DataView, offset: number, format: WavFormat): number {
+  if (format.float) {
+    return view.getFloat32(offset, true);
+  }
+  switch (format.bitDepth) {
+    case 8: {
+      const value = view.getUint8(offset) - 128;
+      return value < 0 ? value / 0x80 : value / 0x7f;
+    }
+    case 16: {
+      const value = view.getInt16(offset, true);
+      return value < 0 ? value / 0x8000 : value / 0x7fff;
+    }
+    case 24: {
+      const value =
+        (view.getInt8(offset + 2) << 16) | view.getUint16(offset, true);
+      return value < 0 ? value / 0x800000 : value / 0x7fffff;
+    }
+    default: {
+      const value = view.getInt32(offset, true);
+      return value < 0 ? value / 0x80000000 : value / 0x7fffffff;
+    }
+  }
+}
+
+function writeSample(
+  view: DataView,
+  offset: number,
+  sample: number,
+  format: WavFormat
+): void {
+  if (format.float) {
+    view.setFloat32(offset, sample, true);
+    return;
+  }
+  const s = Math.max(-1, Math.min(1, sample));
+  switch (format.bitDepth) {
+    case 8:
+      view.setUint8(offset, (s < 0 ? s * 0x80 : s * 0x7f) + 128);
+      break;
+    case 16:
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+      break;
+    case 24: {
+      const value = Math.floor(s < 0 ? s * 0x800000 : s * 0x7fffff);
+      view.setUint16(offset, value & 0xffff, true);
+      view.setInt8(offset + 2, value >> 16);
+      break;
+    }
+    default:
+      view.setInt32(offset, s < 0 ? s * 0x80000000 : s * 0x7fffffff, true);
+  }
+}
+
+/**
+ * Resolve a partial format (16-bit integer PCM unless specified)
+ */
+function resolveFormat(
+  format: Partial<WavFormat> & { sampleRate: number }
+): WavFormat {
+  const float = format.float ?? false;
+  return {
+    sampleRate: format.sampleRate,
+    channels: format.channels ?? 1,
+    bitDepth: float ? 32 : (format.bitDepth ?? 16),
+    float,
+  };
+}
+
+/**
+ * Create a 44-byte WAV header
+ * @param dataLength - Byte length of the sample data; omit when streaming
+ *   and the length isn't known yet (the sizes are then written as
+ *   0xFFFFFFFF, which readers treat as "until the end")
+ */
+export function createWavHeader(
+  format: Partial<WavFormat> & { sampleRate: number },
+  dataLength?: number
+): ArrayBuffer {
+  const resolved = resolveFormat(format);
+  const blockAlign = resolved.channels * (resolved.bitDepth / 8);
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+
+  writeTag(view, 0, "RIFF");
+  view.setUint32(
+    4,
+    dataLength === undefined ? UNKNOWN_SIZE : 36 + dataLength,
+    true
+  );
+  writeTag(view, 8, "WAVE");
+  writeTag(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(
+    20,
+    resolved.float ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM,
+    true
+  );
+  view.setUint16(22, resolved.channels, true);
+  view.setUint32(24, resolved.sampleRate, true);
+  view.setUint32(28, resolved.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, resolved.bitDepth, true);
+  writeTag(view, 36, "data");
+  view.setUint32(40, dataLength ?? UNKNOWN_SIZE, true);
+
+  return header;
+}
+
+/**
+ * Encode planar samples as headerless WAV sample data (interleaved), e.g.
+ * the chunks of a stream after createWavHeader()
+ */
+export function encodeWavSamples(
+  channels: Float32Array[],
+  format: Partial<WavFormat> & { sampleRate: number }
+): ArrayBuffer {
+  const resolved = resolveFormat({ ...format, channels: channels.length });
+  const sampleBytes = resolved.bitDepth / 8;
+  const frames = channels.length > 0 ? channels[0].length : 0;
+  const output = new ArrayBuffer(frames * channels.length * sampleBytes);
+  const view = new DataView(output);
+
+  let offset = 0;
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channels.length; ch++) {
+      writeSample(view, offset, channels[ch][i] ?? 0, resolved);
+      offset += sampleBytes;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Encode planar samples as a complete WAV file
+ * @param format - Sample rate, plus bit depth or float (default: 16-bit)
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  format: Partial<WavFormat> & { sampleRate: number }
+): ArrayBuffer {
+  const samples = encodeWavSamples(channels, format);
+  const header = createWavHeader(
+    { ...format, channels: channels.length },
+    samples.byteLength
+  );
+
+  const output = new Uint8Array(header.byteLength + samples.byteLength);
+  output.set(new Uint8Array(header), 0);
+  output.set(new Uint8Array(samples), header.byteLength);
+  return output.buffer;
+}
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AudioPlayback } from "../src/AudioPlayback";
+import { frameOpusPackets } from "../src/OpusEncoder";
+import { createWavHeader, encodeWavSamples } from "../src/wav";
+import type { PlaybackConfig } from "../src/types";
+
+interface Scheduled {
+  kind: "wav" | "pcm";
+  samples: number;
+  sampleRate?: number;
+  turnId?: string;
+}
+
+/**
+ * Playback with the Web Audio side stubbed out, recording what gets scheduled
+ */
+function createPlayback(config: PlaybackConfig = { sampleRate: 16000 }): {
+  playback: AudioPlayback;
+  scheduled: Scheduled[];
+} {
+  const playback = new AudioPlayback(config);
+  const scheduled: Scheduled[] = [];
+  let pending: Omit<Scheduled, "turnId"> | null = null;
+
+  const internals = playback as unknown as Record<string, unknown>;
+  internals.audioContext = { state: "running", sampleRate: 48000 };
+  internals.gainNode = {};
+  internals.channelsToAudioBuffer = (
+    channels: Float32Array[],
+    sampleRate: number
+  ) => {
+    pending = { kind: "wav", samples: channels[0].length, sampleRate };
+    return {};
+  };
+  internals.createAudioBuffer = (data: ArrayBuffer) => {
+    pending = { kind: "pcm", samples: data.byteLength / 2 };
+    return {};
+  };
+  internals.scheduleBuffer = (_buffer: unknown, turnId?: string) => {
+    scheduled.push({ ...pending!, turnId });
+  };
+
+  return { playback, scheduled };
+}
+
+function pcm(samples: number): Uint8Array {
+  return new Uint8Array(
+    encodeWavSamples([new Float32Array(samples).fill(0.5)], {
+      sampleRate: 24000,
+    })
+  );
+}
+
+function join(...parts: Uint8Array[]): ArrayBuffer {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out.buffer;
+}
+
+describe("AudioPlayback WAV streams", () => {
+  let playback: AudioPlayback;
+  let scheduled: Scheduled[];
+
+  beforeEach(() => {
+    ({ playback, scheduled } = createPlayback());
+  });
+
+  it("waits for a header split across chunks", async () => {
+    const header = new Uint8Array(createWavHeader({ sampleRate: 24000 }));
+
+    await playback.queueAudio(join(header.subarray(0, 20)));
+    await playback.queueAudio(join(header.subarray(20, 40)));
+    expect(scheduled).toEqual([]);
+
+    await playback.queueAudio(join(header.subarray(40), pcm(4)));
+    await playback.queueAudio(join(pcm(2)));
+    expect(scheduled).toEqual([
+      { kind: "wav", samples: 4, sampleRate: 24000, turnId: undefined },
+      { kind: "wav", samples: 2, sampleRate: 24000, turnId: undefined },
+    ]);
+  });
+
+  it("drops a stream whose header isn't supported", async () => {
+    const header = new Uint8Array(createWavHeader({ sampleRate: 24000 }));
+    new DataView(header.buffer).setUint16(20, 0x55, true); // MP3 format tag
+
+    await expect(playback.queueAudio(join(header))).rejects.toThrow(
+      "Unsupported WAV format tag"
+    );
+    await playback.queueAudio(join(pcm(3)));
+    expect(scheduled).toEqual([{ kind: "pcm", samples: 3, turnId: undefined }]);
+  });
+
+  it("ends a stream of unknown length on audio from another turn", async () => {
+    playback.setCurrentTurn("turn-1");
+    const header = new Uint8Array(createWavHeader({ sampleRate: 24000 }));
+    await playback.queueAudio(join(header, pcm(4)), "turn-1");
+
+    playback.setCurrentTurn(null);
+    await playback.queueAudio(join(pcm(3)), "turn-2");
+    expect(scheduled).toEqual([
+      { kind: "wav", samples: 4, sampleRate: 24000, turnId: "turn-1" },
+      { kind: "pcm", samples: 3, turnId: "turn-2" },
+    ]);
+  });
+
+  it("ends a stream of unknown length when the turn changes", async () => {
+    playback.setCurrentTurn("turn-1");
+    const header = new Uint8Array(createWavHeader({ sampleRate: 24000 }));
+    await playback.queueAudio(join(header, pcm(4)), "turn-1");
+
+    playback.setCurrentTurn("turn-2");
+    await playback.queueAudio(join(pcm(3)));
+    expect(scheduled.map((item) => item.kind)).toEqual(["wav", "pcm"]);
+  });
+});
+
+describe("AudioPlayback resampling", () => {
+  it("plays the resampler tail once the queue drains", async () => {
+    const playback = new AudioPlayback({
+      sampleRate: 16000,
+      resampleQuality: "high",
+    });
+    const scheduled: number[] = [];
+    const internals = playback as unknown as Record<string, unknown>;
+    internals.audioContext = {
+      state: "running",
+      sampleRate: 48000,
+      createBuffer: (_channels: number, length: number) => ({
+        length,
+        copyToChannel: () => {},
+      }),
+    };
+    internals.gainNode = {};
+    internals.scheduleBuffer = (buffer: { length: number }) => {
+      scheduled.push(buffer.length);
+    };
+
+    const chunk = new Uint8Array(
+      encodeWavSamples([new Float32Array(320).fill(0.5)], {
+        sampleRate: 16000,
+      })
+    );
+    for (let i = 0; i < 5; i++) {
+      await playback.queueAudio(join(chunk));
+    }
+    const drain = internals.drainStream as () => { length: number } | null;
+    const tail = drain.call(playback);
+
+    // Five 20 ms chunks at 48 kHz (within a sample), the last ms only
+    // after the drain
+    const played = scheduled.reduce((sum, length) => sum + length, 0);
+    expect(played).toBeLessThan(4700);
+    expect(Math.abs(played + tail!.length - 4800)).toBeLessThanOrEqual(1);
+    expect(drain.call(playback)).toBeNull();
+  });
+});
+
+/**
+ * WebCodecs AudioDecoder that never outputs, so packets stay in flight
+ */
+class StalledAudioDecoder {
+  static instances: StalledAudioDecoder[] = [];
+  state = "unconfigured";
+
+  constructor(readonly init: { error: (error: Error) => void }) {
+    StalledAudioDecoder.instances.push(this);
+  }
+
+  configure(): void {
+    this.state = "configured";
+  }
+
+  decode(): void {}
+
+  close(): void {
+    this.state = "closed";
+  }
+
+  // WebCodecs closes a decoder when it reports an error
+  fail(message: string): void {
+    this.state = "closed";
+    this.init.error(new Error(message));
+  }
+}
+
+describe("AudioPlayback marks", () => {
+  beforeEach(() => {
+    StalledAudioDecoder.instances = [];
+    vi.stubGlobal("AudioDecoder", StalledAudioDecoder);
+    vi.stubGlobal(
+      "EncodedAudioChunk",
+      class {
+        constructor(readonly init: object) {}
+      }
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("cancels marks waiting on audio the decoder fails on", async () => {
+    const { playback } = createPlayback({ sampleRate: 48000, codec: "opus" });
+    const errors: string[] = [];
+    playback.on("error", (error) => errors.push(error.message));
+    const packet = frameOpusPackets([new Uint8Array([0xf8, 1, 2])]);
+
+    await playback.queueAudio(packet);
+    const waiting = playback.queueMark("after-bad-packet");
+    StalledAudioDecoder.instances[0].fail("Decoding error");
+
+    await expect(waiting).resolves.toBe(false);
+    expect(errors).toEqual(["Decoding error"]);
+
+    // Later marks don't wait on the packets the failed decoder dropped
+    await expect(playback.queueMark("next")).resolves.toBe(true);
+  });
+});
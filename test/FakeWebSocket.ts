@@ -0,0 +1,85 @@
+/**
+ * Scripted stand-in for the browser WebSocket
+ *
+ * The test plays the server: it opens the socket, reads what the client sent
+ * and pushes server messages with receive().
+ */
+export class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  /** Every socket created, most recent last */
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readyState = FakeWebSocket.CONNECTING;
+  binaryType = "blob";
+  /** Everything the client sent, in order */
+  sent: (string | ArrayBuffer)[] = [];
+  closeCode: number | null = null;
+
+  onopen: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  static latest(): FakeWebSocket {
+    const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    if (!socket) {
+      throw new Error("No socket created");
+    }
+    return socket;
+  }
+
+  static reset(): void {
+    FakeWebSocket.instances = [];
+  }
+
+  send(data: string | ArrayBuffer): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error("Socket not open");
+    }
+    this.sent.push(data);
+  }
+
+  close(code = 1000, reason = ""): void {
+    this.closeCode = code;
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+
+  /** Accept the connection */
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  /** Push a server message (objects are sent as JSON text) */
+  receive(data: string | ArrayBuffer | object): void {
+    const payload =
+      typeof data === "string" || data instanceof ArrayBuffer
+        ? data
+        : JSON.stringify(data);
+    this.onmessage?.({ data: payload });
+  }
+
+  /** Drop the connection from the server side */
+  drop(code = 1006, reason = ""): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+
+  /** Client text messages parsed as JSON */
+  sentJson(): unknown[] {
+    return this.sent
+      .filter((data): data is string => typeof data === "string")
+      .map((data) => JSON.parse(data));
+  }
+}
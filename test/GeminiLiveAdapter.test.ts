@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Chatdio } from "../src/Chatdio";
+import { WebSocketBridge } from "../src/WebSocketBridge";
+import { GeminiLiveAdapter } from "../src/GeminiLiveAdapter";
+import { FakeWebSocket } from "./FakeWebSocket";
+
+function base64(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function audioContent(bytes: number[]): object {
+  return {
+    serverContent: {
+      modelTurn: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: "audio/pcm;rate=24000",
+              data: base64(bytes),
+            },
+          },
+        ],
+      },
+    },
+  };
+}
+
+async function connect(bridge: WebSocketBridge): Promise<FakeWebSocket> {
+  const connected = bridge.connect();
+  const socket = FakeWebSocket.latest();
+  socket.open();
+  await connected;
+  return socket;
+}
+
+beforeEach(() => {
+  FakeWebSocket.reset();
+  vi.stubGlobal("WebSocket", FakeWebSocket);
+  vi.stubGlobal("window", globalThis);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("GeminiLiveAdapter through WebSocketBridge", () => {
+  it("sends the setup message first and passes setupComplete on", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://live.test",
+      protocol: new GeminiLiveAdapter({
+        model: "models/test-live",
+        setup: { systemInstruction: { parts: [{ text: "Be brief" }] } },
+      }),
+    });
+    const messages: unknown[] = [];
+    bridge.on("message", (message) => messages.push(message));
+
+    const socket = await connect(bridge);
+    expect(socket.sentJson()).toEqual([
+      {
+        setup: {
+          model: "models/test-live",
+          generationConfig: { responseModalities: ["AUDIO"] },
+          systemInstruction: { parts: [{ text: "Be brief" }] },
+        },
+      },
+    ]);
+
+    socket.receive({ setupComplete: {} });
+    expect(messages).toEqual([{ setupComplete: {} }]);
+    bridge.disconnect();
+  });
+
+  it("disables server activity detection when the client detects it", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://live.test",
+      protocol: new GeminiLiveAdapter({ clientActivityDetection: true }),
+    });
+    const socket = await connect(bridge);
+    const [setup] = socket.sentJson() as {
+      setup: { realtimeInputConfig: unknown };
+    }[];
+    expect(setup.setup.realtimeInputConfig).toEqual({
+      automaticActivityDetection: { disabled: true },
+    });
+
+    bridge.sendMessage({ type: "speech-start" });
+    bridge.sendMessage({ type: "speech-end" });
+    expect(socket.sentJson().slice(1)).toEqual([
+      { realtimeInput: { activityStart: {} } },
+      { realtimeInput: { activityEnd: {} } },
+    ]);
+    bridge.disconnect();
+  });
+
+  it("wraps captured audio in realtimeInput mediaChunks", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://live.test",
+      protocol: "gemini-live",
+    });
+    const socket = await connect(bridge);
+
+    bridge.sendAudio(new Uint8Array([1, 2, 3, 4]).buffer);
+    bridge.sendMessage({ type: "speech-start" });
+    bridge.sendMessage({ type: "interrupt" });
+
+    expect(socket.sentJson().slice(1)).toEqual([
+      {
+        realtimeInput: {
+          mediaChunks: [
+            { mimeType: "audio/pcm;rate=16000", data: base64([1, 2, 3, 4]) },
+          ],
+        },
+      },
+    ]);
+    bridge.disconnect();
+  });
+
+  it("emits inlineData audio with a turn ID, from text or binary frames", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://live.test",
+      protocol: "gemini-live",
+    });
+    const audio: [number[], string | undefined][] = [];
+    bridge.on("audio", (data, turnId) =>
+      audio.push([[...new Uint8Array(data)], turnId])
+    );
+    const socket = await connect(bridge);
+
+    socket.receive(audioContent([1, 2]));
+    socket.receive(
+      new TextEncoder().encode(JSON.stringify(audioContent([3, 4])))
+        .buffer as ArrayBuffer
+    );
+
+    expect(audio).toEqual([
+      [[1, 2], "gemini-turn-1"],
+      [[3, 4], "gemini-turn-1"],
+    ]);
+    bridge.disconnect();
+  });
+
+  it("reports API errors", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://live.test",
+      protocol: "gemini-live",
+    });
+    const errors: string[] = [];
+    bridge.on("error", (error) => errors.push(error.message));
+    const socket = await connect(bridge);
+
+    socket.receive({ error: { code: 400, message: "Bad setup" } });
+    expect(errors).toEqual(["Bad setup (400)"]);
+    bridge.disconnect();
+  });
+});
+
+describe("GeminiLiveAdapter turns in Chatdio", () => {
+  async function connectChatdio() {
+    const chatdio = new Chatdio({
+      websocket: { url: "wss://live.test", protocol: "gemini-live" },
+    });
+    const playAudio = vi
+      .spyOn(chatdio, "playAudio")
+      .mockResolvedValue(undefined);
+    const connected = chatdio.connectWebSocket();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+    socket.receive({ setupComplete: {} });
+    return { chatdio, socket, playAudio };
+  }
+
+  it("starts a turn and plays its audio", async () => {
+    const { chatdio, socket, playAudio } = await connectChatdio();
+    const started: (string | null)[] = [];
+    chatdio.on("turn:started", (turnId) => started.push(turnId));
+
+    socket.receive(audioContent([5, 6]));
+
+    expect(started).toEqual(["gemini-turn-1"]);
+    expect(chatdio.getCurrentTurnId()).toBe("gemini-turn-1");
+    expect(playAudio).toHaveBeenCalledTimes(1);
+    const [data, turnId] = playAudio.mock.calls[0];
+    expect([...new Uint8Array(data)]).toEqual([5, 6]);
+    expect(turnId).toBe("gemini-turn-1");
+    chatdio.disconnectWebSocket();
+  });
+
+  it("maps interrupted to interruptTurn", async () => {
+    const { chatdio, socket } = await connectChatdio();
+    const interruptTurn = vi.spyOn(chatdio, "interruptTurn");
+    const interrupted: [string, string][] = [];
+    chatdio.on("turn:interrupted", (turnId, info) =>
+      interrupted.push([turnId, info.reason])
+    );
+
+    socket.receive(audioContent([1]));
+    socket.receive({ serverContent: { interrupted: true } });
+
+    expect(interruptTurn).toHaveBeenCalledWith({
+      startNewTurn: false,
+      reason: "server",
+    });
+    expect(interrupted).toEqual([["gemini-turn-1", "server"]]);
+
+    // The next reply is a new turn
+    socket.receive(audioContent([2]));
+    expect(chatdio.getCurrentTurnId()).toBe("gemini-turn-2");
+    chatdio.disconnectWebSocket();
+  });
+
+  it("maps turnComplete to endTurn", async () => {
+    const { chatdio, socket } = await connectChatdio();
+    const endTurn = vi.spyOn(chatdio, "endTurn");
+    const ended: string[] = [];
+    chatdio.on("turn:ended", (turnId) => ended.push(turnId));
+
+    socket.receive(audioContent([1]));
+    socket.receive({
+      serverContent: { generationComplete: true, turnComplete: true },
+    });
+
+    expect(endTurn).toHaveBeenCalledTimes(1);
+    expect(ended).toEqual(["gemini-turn-1"]);
+    expect(chatdio.getCurrentTurnId()).toBeNull();
+    chatdio.disconnectWebSocket();
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MicrophoneCapture } from "../src/MicrophoneCapture";
+import { getOpusPacketDuration, parseOpusFrames } from "../src/OpusEncoder";
+import type { CaptureCodec } from "../src/types";
+
+const SAMPLE_RATE = 16000;
+const BLOCK_SIZE = 2048; // 128 ms
+
+function samplesFor(ms: number): number {
+  return Math.round((SAMPLE_RATE * ms) / 1000);
+}
+
+// Harmonic "vowel" between two silences, padded to whole blocks
+function utterance(): Float32Array {
+  const out = new Float32Array(samplesFor(2560));
+  for (let i = samplesFor(500); i < samplesFor(1500); i++) {
+    const t = i / SAMPLE_RATE;
+    let sample = 0;
+    for (let h = 1; h <= 8; h++) {
+      sample += Math.sin(2 * Math.PI * 150 * h * t) / h;
+    }
+    out[i] = 0.15 * sample;
+  }
+  return out;
+}
+
+/**
+ * WebCodecs AudioEncoder whose packets the test releases by hand
+ */
+class ManualAudioEncoder {
+  static instances: ManualAudioEncoder[] = [];
+  static isConfigSupported = async () => ({ supported: true });
+  state = "unconfigured";
+  framesSubmitted = 0;
+  framesOutput = 0;
+
+  constructor(
+    readonly init: {
+      output: (chunk: {
+        byteLength: number;
+        timestamp: number;
+        copyTo: (destination: Uint8Array) => void;
+      }) => void;
+    }
+  ) {
+    ManualAudioEncoder.instances.push(this);
+  }
+
+  configure(): void {
+    this.state = "configured";
+  }
+
+  encode(data: { numberOfFrames: number }): void {
+    this.framesSubmitted += data.numberOfFrames;
+  }
+
+  close(): void {
+    this.state = "closed";
+  }
+
+  // Output the next 20 ms packet (CELT fullband, one frame)
+  outputPacket(): void {
+    const timestamp = (this.framesOutput / SAMPLE_RATE) * 1000000;
+    this.framesOutput += samplesFor(20);
+    this.init.output({
+      byteLength: 1,
+      timestamp,
+      copyTo: (destination) => {
+        destination[0] = 0xf8;
+      },
+    });
+  }
+}
+
+describe("MicrophoneCapture speech events", () => {
+  let capture: MicrophoneCapture;
+  let log: string[];
+  let emittedMs: number;
+
+  async function createCapture(codec: CaptureCodec): Promise<void> {
+    capture = new MicrophoneCapture({
+      sampleRate: SAMPLE_RATE,
+      bufferSize: BLOCK_SIZE,
+      codec,
+      vad: { onsetMs: 80, hangoverMs: 400 },
+    });
+
+    // ScriptProcessorNode capture with the Web Audio side stubbed out
+    const internals = capture as unknown as Record<string, unknown>;
+    internals.audioContext = {
+      sampleRate: SAMPLE_RATE,
+      currentTime: 0,
+      destination: {},
+      createScriptProcessor: () => ({ connect: () => {} }),
+    };
+    internals.inputSampleRate = SAMPLE_RATE;
+    internals.sourceNode = { connect: () => {} };
+    internals.analyzerNode = { connect: () => {} };
+    internals.isCapturing = true;
+    if (codec === "opus") {
+      await (internals.setupOpusEncoder as () => Promise<void>).call(capture);
+    }
+    (internals.setupScriptProcessorNode as () => void).call(capture);
+
+    emittedMs = 0;
+    log = [];
+    capture.on("data", (data: ArrayBuffer) => {
+      emittedMs +=
+        codec === "opus"
+          ? parseOpusFrames(data).reduce(
+              (sum, packet) => sum + getOpusPacketDuration(packet),
+              0
+            )
+          : (data.byteLength / 2 / SAMPLE_RATE) * 1000;
+      log.push(`data ${emittedMs}`);
+    });
+    capture.on("speech-start", () => log.push("speech-start"));
+    capture.on("speech-end", () => log.push("speech-end"));
+  }
+
+  function captureSignal(signal: Float32Array): void {
+    const handleAudioProcess = (capture as unknown as Record<string, unknown>)
+      .handleAudioProcess as (event: unknown) => void;
+    for (let offset = 0; offset < signal.length; offset += BLOCK_SIZE) {
+      const block = signal.subarray(offset, offset + BLOCK_SIZE);
+      handleAudioProcess({
+        inputBuffer: {
+          duration: block.length / SAMPLE_RATE,
+          numberOfChannels: 1,
+          getChannelData: () => block,
+        },
+      });
+    }
+  }
+
+  beforeEach(() => {
+    ManualAudioEncoder.instances = [];
+    vi.stubGlobal("AudioEncoder", ManualAudioEncoder);
+    vi.stubGlobal(
+      "AudioData",
+      class {
+        numberOfFrames: number;
+        constructor(init: { numberOfFrames: number }) {
+          this.numberOfFrames = init.numberOfFrames;
+        }
+        close(): void {}
+      }
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Speech is confirmed in the block ending at 640 ms and ends (after the
+  // hangover) in the block ending at 1920 ms
+  const expected = ["data 640", "speech-start", "data 1920", "speech-end"];
+
+  it("emits speech events after the PCM chunk they were detected in", async () => {
+    await createCapture("pcm");
+
+    captureSignal(utterance());
+
+    expect(log.filter((entry) => expected.includes(entry))).toEqual(expected);
+    expect(log.indexOf("speech-start")).toBe(log.indexOf("data 640") + 1);
+    expect(log.indexOf("speech-end")).toBe(log.indexOf("data 1920") + 1);
+  });
+
+  it("holds speech events until the Opus packets before them are out", async () => {
+    await createCapture("opus");
+    const [encoder] = ManualAudioEncoder.instances;
+
+    captureSignal(utterance());
+    expect(log).toEqual([]);
+
+    while (encoder.framesOutput < encoder.framesSubmitted) {
+      encoder.outputPacket();
+    }
+
+    expect(log.filter((entry) => expected.includes(entry))).toEqual(expected);
+    expect(log.indexOf("speech-start")).toBe(log.indexOf("data 640") + 1);
+    expect(log.indexOf("speech-end")).toBe(log.indexOf("data 1920") + 1);
+  });
+});
+
+describe("getOpusPacketDuration", () => {
+  it.each([
+    [[0x08], 20], // SILK narrowband 20 ms, one frame
+    [[0x18], 60], // SILK narrowband 60 ms
+    [[0x69], 40], // Hybrid 20 ms, two frames
+    [[0xf8], 20], // CELT fullband 20 ms
+    [[0xe0], 2.5], // CELT fullband 2.5 ms
+    [[0xfb, 0x03], 60], // CELT 20 ms, three frames (code 3)
+    [[], 0],
+  ])("reads the duration of %j", (bytes, durationMs) => {
+    expect(getOpusPacketDuration(new Uint8Array(bytes))).toBe(durationMs);
+  });
+});
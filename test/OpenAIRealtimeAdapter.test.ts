@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AudioPlayback } from "../src/AudioPlayback";
+import { Chatdio } from "../src/Chatdio";
+import { WebSocketBridge } from "../src/WebSocketBridge";
+import { OpenAIRealtimeAdapter } from "../src/OpenAIRealtimeAdapter";
+import { FakeWebSocket } from "./FakeWebSocket";
+
+function base64(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function audioDelta(itemId: string, bytes: number[]): object {
+  return {
+    type: "response.audio.delta",
+    item_id: itemId,
+    content_index: 0,
+    delta: base64(bytes),
+  };
+}
+
+async function connect(bridge: WebSocketBridge): Promise<FakeWebSocket> {
+  const connected = bridge.connect();
+  const socket = FakeWebSocket.latest();
+  socket.open();
+  await connected;
+  return socket;
+}
+
+beforeEach(() => {
+  FakeWebSocket.reset();
+  vi.stubGlobal("WebSocket", FakeWebSocket);
+  vi.stubGlobal("window", globalThis);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("OpenAIRealtimeAdapter through WebSocketBridge", () => {
+  it("sends session.update first and wraps captured audio", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://realtime.test",
+      protocol: new OpenAIRealtimeAdapter({
+        session: { instructions: "Be brief" },
+      }),
+    });
+    const socket = await connect(bridge);
+
+    bridge.sendAudio(new Uint8Array([1, 2, 3, 4]).buffer);
+    bridge.sendMessage({ type: "speech-start" });
+    bridge.sendMessage({ type: "response.create" });
+
+    expect(socket.sentJson()).toEqual([
+      { type: "session.update", session: { instructions: "Be brief" } },
+      { type: "input_audio_buffer.append", audio: base64([1, 2, 3, 4]) },
+      { type: "response.create" },
+    ]);
+    bridge.disconnect();
+  });
+
+  it("emits audio deltas with the item ID as turn ID", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://realtime.test",
+      protocol: "openai-realtime",
+    });
+    const audio: [number[], string | undefined][] = [];
+    bridge.on("audio", (data, turnId) =>
+      audio.push([[...new Uint8Array(data)], turnId])
+    );
+    const socket = await connect(bridge);
+
+    socket.receive(audioDelta("item_1", [1, 2]));
+    socket.receive({
+      type: "response.output_audio.delta",
+      item_id: "item_1",
+      delta: base64([3, 4]),
+    });
+
+    expect(audio).toEqual([
+      [[1, 2], "item_1"],
+      [[3, 4], "item_1"],
+    ]);
+    bridge.disconnect();
+  });
+
+  it("reports API errors", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://realtime.test",
+      protocol: "openai-realtime",
+    });
+    const errors: string[] = [];
+    bridge.on("error", (error) => errors.push(error.message));
+    const socket = await connect(bridge);
+
+    socket.receive({
+      type: "error",
+      error: { message: "Invalid session", code: "invalid_value" },
+    });
+    expect(errors).toEqual(["Invalid session (invalid_value)"]);
+    bridge.disconnect();
+  });
+});
+
+describe("OpenAIRealtimeAdapter turns in Chatdio", () => {
+  async function connectChatdio() {
+    const chatdio = new Chatdio({
+      websocket: { url: "wss://realtime.test", protocol: "openai-realtime" },
+    });
+    const playAudio = vi
+      .spyOn(chatdio, "playAudio")
+      .mockResolvedValue(undefined);
+    const connected = chatdio.connectWebSocket();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+    return { chatdio, socket, playAudio };
+  }
+
+  it("starts a turn on response.audio.delta and plays its audio", async () => {
+    const { chatdio, socket, playAudio } = await connectChatdio();
+    const started: (string | null)[] = [];
+    chatdio.on("turn:started", (turnId) => started.push(turnId));
+
+    socket.receive(audioDelta("item_1", [5, 6]));
+    socket.receive(audioDelta("item_1", [7]));
+
+    expect(started).toEqual(["item_1"]);
+    expect(chatdio.getCurrentTurnId()).toBe("item_1");
+    expect(playAudio).toHaveBeenCalledTimes(2);
+    const [data, turnId] = playAudio.mock.calls[0];
+    expect([...new Uint8Array(data)]).toEqual([5, 6]);
+    expect(turnId).toBe("item_1");
+    chatdio.disconnectWebSocket();
+  });
+
+  it("maps input_audio_buffer.speech_started to interruptTurn", async () => {
+    const { chatdio, socket } = await connectChatdio();
+    const interruptTurn = vi.spyOn(chatdio, "interruptTurn");
+    const interrupted: [string, string][] = [];
+    chatdio.on("turn:interrupted", (turnId, info) =>
+      interrupted.push([turnId, info.reason])
+    );
+
+    socket.receive({ type: "response.created" });
+    socket.receive(audioDelta("item_1", [1]));
+    socket.receive({ type: "input_audio_buffer.speech_started" });
+
+    expect(interruptTurn).toHaveBeenCalledWith({
+      startNewTurn: false,
+      reason: "server",
+    });
+    expect(interrupted).toEqual([["item_1", "server"]]);
+    expect(chatdio.getCurrentTurnId()).toBeNull();
+    // The server cancels its own response; only the truncate is sent
+    expect(socket.sentJson()).toEqual([
+      {
+        type: "conversation.item.truncate",
+        item_id: "item_1",
+        content_index: 0,
+        audio_end_ms: 0,
+      },
+    ]);
+    chatdio.disconnectWebSocket();
+  });
+
+  it("truncates the item at the played position on a client interrupt", async () => {
+    const { chatdio, socket } = await connectChatdio();
+    vi.spyOn(AudioPlayback.prototype, "getPlayedDuration").mockReturnValue(
+      1234.4
+    );
+
+    socket.receive({ type: "response.created" });
+    socket.receive(audioDelta("item_1", [1]));
+    const { interruptedTurnId } = chatdio.interruptTurn(false);
+
+    expect(interruptedTurnId).toBe("item_1");
+    expect(socket.sentJson()).toEqual([
+      { type: "response.cancel" },
+      {
+        type: "conversation.item.truncate",
+        item_id: "item_1",
+        content_index: 0,
+        audio_end_ms: 1234,
+      },
+    ]);
+    chatdio.disconnectWebSocket();
+  });
+
+  it("maps response.done to endTurn", async () => {
+    const { chatdio, socket } = await connectChatdio();
+    const endTurn = vi.spyOn(chatdio, "endTurn");
+    const ended: string[] = [];
+    chatdio.on("turn:ended", (turnId) => ended.push(turnId));
+
+    socket.receive({ type: "response.created" });
+    socket.receive(audioDelta("item_1", [1]));
+    socket.receive({
+      type: "response.done",
+      response: { status: "cancelled" },
+    });
+
+    expect(endTurn).toHaveBeenCalledTimes(1);
+    expect(ended).toEqual(["item_1"]);
+    expect(chatdio.getCurrentTurnId()).toBeNull();
+    chatdio.disconnectWebSocket();
+  });
+
+  it("ends a turn once when response.audio.done precedes response.done", async () => {
+    const { chatdio, socket } = await connectChatdio();
+    const ended: string[] = [];
+    chatdio.on("turn:ended", (turnId) => ended.push(turnId));
+
+    socket.receive(audioDelta("item_1", [1]));
+    socket.receive({ type: "response.audio.done", item_id: "item_1" });
+    socket.receive({
+      type: "response.done",
+      response: { status: "completed" },
+    });
+
+    expect(ended).toEqual(["item_1"]);
+    chatdio.disconnectWebSocket();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { Resampler } from "../src/Resampler";
+
+function sine(
+  frequency: number,
+  sampleRate: number,
+  length: number,
+  amplitude = 0.5
+): Float32Array {
+  return Float32Array.from(
+    { length },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+}
+
+function resample(resampler: Resampler, input: Float32Array): Float32Array {
+  const body = resampler.process(input);
+  const tail = resampler.flush();
+  const out = new Float32Array(body.length + tail.length);
+  out.set(body, 0);
+  out.set(tail, body.length);
+  return out;
+}
+
+function peak(samples: Float32Array): number {
+  return samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+}
+
+describe("Resampler", () => {
+  it.each([
+    [8000, 48000],
+    [16000, 48000],
+    [24000, 48000],
+    [48000, 16000],
+  ])("resamples %i Hz to %i Hz at the rate ratio", (inputRate, outputRate) => {
+    // Within a sample: the read position accumulates rounding error
+    const resampler = new Resampler(inputRate, outputRate);
+    const input = sine(300, inputRate, inputRate / 2); // 500 ms
+
+    const output = resample(resampler, input);
+
+    expect(Math.abs(output.length - outputRate / 2)).toBeLessThanOrEqual(1);
+    expect(resampler.isActive()).toBe(false);
+  });
+
+  it("gives the same output for any chunking", () => {
+    const input = sine(440, 16000, 4000);
+    const expected = resample(new Resampler(16000, 48000, "high"), input);
+
+    for (const chunkSize of [1, 7, 160, 1001]) {
+      const resampler = new Resampler(16000, 48000, "high");
+      const chunks: Float32Array[] = [];
+      for (let offset = 0; offset < input.length; offset += chunkSize) {
+        chunks.push(
+          resampler.process(input.subarray(offset, offset + chunkSize))
+        );
+      }
+      chunks.push(resampler.flush());
+
+      const output = new Float32Array(expected.length);
+      let length = 0;
+      for (const chunk of chunks) {
+        output.set(chunk, length);
+        length += chunk.length;
+      }
+      // Equal up to float32 rounding of the rebased read position
+      expect(length).toBe(expected.length);
+      output.forEach((sample, i) => expect(sample).toBeCloseTo(expected[i], 6));
+    }
+  });
+
+  it.each(["low", "medium", "high"] as const)(
+    "preserves the amplitude of a sine (%s quality)",
+    (quality) => {
+      const output = resample(
+        new Resampler(24000, 48000, quality),
+        sine(1000, 24000, 12000)
+      );
+
+      // Skip the filter's ramp in and out
+      const steady = output.subarray(2000, output.length - 2000);
+      expect(peak(steady)).toBeCloseTo(0.5, 2);
+    }
+  );
+
+  it("removes content above the output Nyquist frequency", () => {
+    const output = resample(
+      new Resampler(48000, 16000, "high"),
+      sine(12000, 48000, 24000)
+    );
+
+    expect(peak(output.subarray(1000, output.length - 1000))).toBeLessThan(
+      0.01
+    );
+  });
+
+  it("passes audio through at equal rates", () => {
+    const resampler = new Resampler(48000, 48000);
+    const input = sine(440, 48000, 480);
+
+    expect(resampler.process(input)).toBe(input);
+    expect(resampler.flush()).toHaveLength(0);
+  });
+});
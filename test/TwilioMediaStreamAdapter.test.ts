@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Chatdio } from "../src/Chatdio";
+import { WebSocketBridge } from "../src/WebSocketBridge";
+import { TwilioMediaStreamAdapter } from "../src/TwilioMediaStreamAdapter";
+import type { TwilioMediaStreamConfig } from "../src/TwilioMediaStreamAdapter";
+import { FakeWebSocket } from "./FakeWebSocket";
+
+const STREAM_SID = "MZ-test";
+
+function base64(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function media(bytes: number[]): object {
+  return {
+    event: "media",
+    streamSid: STREAM_SID,
+    media: { track: "outbound", payload: base64(bytes) },
+  };
+}
+
+function mark(name: string): object {
+  return { event: "mark", streamSid: STREAM_SID, mark: { name } };
+}
+
+async function connect(bridge: WebSocketBridge): Promise<FakeWebSocket> {
+  const connected = bridge.connect();
+  const socket = FakeWebSocket.latest();
+  socket.open();
+  await connected;
+  return socket;
+}
+
+beforeEach(() => {
+  FakeWebSocket.reset();
+  vi.stubGlobal("WebSocket", FakeWebSocket);
+  vi.stubGlobal("window", globalThis);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("TwilioMediaStreamAdapter through WebSocketBridge", () => {
+  it("starts the stream and sends captured audio as inbound media", async () => {
+    const bridge = new WebSocketBridge({
+      url: "wss://twilio.test",
+      protocol: new TwilioMediaStreamAdapter({
+        streamSid: STREAM_SID,
+        callSid: "CA-test",
+        accountSid: "AC-test",
+      }),
+    });
+    const socket = await connect(bridge);
+
+    bridge.sendAudio(new Uint8Array(160).buffer);
+    bridge.sendAudio(new Uint8Array([1, 2]).buffer);
+    bridge.sendMessage({ type: "dtmf", digit: "5" });
+
+    expect(socket.sentJson()).toEqual([
+      { event: "connected", protocol: "Call", version: "1.0.0" },
+      {
+        event: "start",
+        sequenceNumber: "1",
+        start: {
+          streamSid: STREAM_SID,
+          accountSid: "AC-test",
+          callSid: "CA-test",
+          tracks: ["inbound", "outbound"],
+          customParameters: {},
+          mediaFormat: {
+            encoding: "audio/x-mulaw",
+            sampleRate: 8000,
+            channels: 1,
+          },
+        },
+        streamSid: STREAM_SID,
+      },
+      {
+        event: "media",
+        sequenceNumber: "2",
+        media: {
+          track: "inbound",
+          chunk: "1",
+          timestamp: "0",
+          payload: base64(new Array(160).fill(0)),
+        },
+        streamSid: STREAM_SID,
+      },
+      {
+        event: "media",
+        sequenceNumber: "3",
+        media: {
+          track: "inbound",
+          chunk: "2",
+          timestamp: "20",
+          payload: base64([1, 2]),
+        },
+        streamSid: STREAM_SID,
+      },
+      {
+        event: "dtmf",
+        sequenceNumber: "4",
+        dtmf: { track: "inbound_track", digit: "5" },
+        streamSid: STREAM_SID,
+      },
+    ]);
+    bridge.disconnect();
+  });
+});
+
+describe("TwilioMediaStreamAdapter turns in Chatdio", () => {
+  async function connectChatdio(config: TwilioMediaStreamConfig = {}) {
+    const chatdio = new Chatdio({
+      websocket: {
+        url: "wss://twilio.test",
+        protocol: new TwilioMediaStreamAdapter({
+          streamSid: STREAM_SID,
+          ...config,
+        }),
+      },
+    });
+    const playAudio = vi
+      .spyOn(chatdio, "playAudio")
+      .mockResolvedValue(undefined);
+    const connected = chatdio.connectWebSocket();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+    const played = () =>
+      playAudio.mock.calls.map(([data, turnId]) => [
+        [...new Uint8Array(data)],
+        turnId,
+      ]);
+    return { chatdio, socket, played };
+  }
+
+  it("plays outbound media as a turn", async () => {
+    const { chatdio, socket, played } = await connectChatdio();
+
+    socket.receive(media([1]));
+    socket.receive(media([2]));
+
+    expect(chatdio.getCurrentTurnId()).toBe("twilio-turn-1");
+    expect(played()).toEqual([
+      [[1], "twilio-turn-1"],
+      [[2], "twilio-turn-1"],
+    ]);
+    chatdio.disconnectWebSocket();
+  });
+
+  it("plays media after a clear as a new turn", async () => {
+    const { chatdio, socket, played } = await connectChatdio();
+    const interrupted: [string, string][] = [];
+    chatdio.on("turn:interrupted", (turnId, info) =>
+      interrupted.push([turnId, info.reason])
+    );
+
+    socket.receive(media([1]));
+    socket.receive({ event: "clear", streamSid: STREAM_SID });
+    socket.receive(media([2]));
+
+    expect(interrupted).toEqual([["twilio-turn-1", "server"]]);
+    expect(played()).toEqual([
+      [[1], "twilio-turn-1"],
+      [[2], "twilio-turn-2"],
+    ]);
+    chatdio.disconnectWebSocket();
+  });
+
+  it("drops media after a client interrupt until the next mark", async () => {
+    const { chatdio, socket, played } = await connectChatdio();
+    const started: (string | null)[] = [];
+    chatdio.on("turn:started", (turnId) => started.push(turnId));
+
+    socket.receive(media([1]));
+    const sentBefore = socket.sent.length;
+    chatdio.interruptTurn(false);
+
+    // The rest of the interrupted reply
+    socket.receive(media([2]));
+    socket.receive(media([3]));
+    expect(socket.sent.length).toBe(sentBefore);
+
+    socket.receive(mark("reply-1"));
+    socket.receive(media([4]));
+
+    expect(started).toEqual(["twilio-turn-1", "twilio-turn-2"]);
+    expect(played()).toEqual([
+      [[1], "twilio-turn-1"],
+      [[4], "twilio-turn-2"],
+    ]);
+    chatdio.disconnectWebSocket();
+  });
+
+  it("echoes a mark once the audio before it is queued", async () => {
+    const { chatdio, socket } = await connectChatdio();
+
+    socket.receive(media([1]));
+    socket.receive(mark("reply-1"));
+
+    await vi.waitFor(() =>
+      expect(socket.sentJson()).toContainEqual(
+        expect.objectContaining({ event: "mark", mark: { name: "reply-1" } })
+      )
+    );
+    chatdio.disconnectWebSocket();
+  });
+
+  it("reports a mark that can't be echoed as ws:error", async () => {
+    const { chatdio, socket } = await connectChatdio();
+    const errors: string[] = [];
+    chatdio.on("ws:error", (error) => errors.push(error.message));
+    vi.spyOn(WebSocketBridge.prototype, "sendMessage").mockImplementation(
+      () => {
+        throw new Error("Send failed");
+      }
+    );
+
+    socket.receive(mark("reply-1"));
+
+    await vi.waitFor(() => expect(errors).toEqual(["Send failed"]));
+    chatdio.disconnectWebSocket();
+  });
+
+  it("plays media right after a client interrupt when dropping is off", async () => {
+    const { chatdio, socket, played } = await connectChatdio({
+      dropMediaAfterInterrupt: false,
+    });
+
+    socket.receive(media([1]));
+    chatdio.interruptTurn(false);
+    socket.receive(media([2]));
+
+    expect(played()).toEqual([
+      [[1], "twilio-turn-1"],
+      [[2], "twilio-turn-2"],
+    ]);
+    chatdio.disconnectWebSocket();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { VoiceActivityDetector } from "../src/VoiceActivityDetector";
+import type { VADEvent } from "../src/types";
+
+const SAMPLE_RATE = 16000;
+
+// Deterministic pseudo-random numbers in [-1, 1)
+function noiseSource(seed = 1): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x80000000 - 1;
+  };
+}
+
+function samplesFor(ms: number): number {
+  return Math.round((SAMPLE_RATE * ms) / 1000);
+}
+
+// Faint background noise (about -70 dBFS)
+function silence(ms: number, random = noiseSource(7)): Float32Array {
+  return Float32Array.from({ length: samplesFor(ms) }, () => random() * 3e-4);
+}
+
+// Harmonic "vowel": a 150 Hz fundamental with decaying harmonics
+function voiced(ms: number): Float32Array {
+  const out = new Float32Array(samplesFor(ms));
+  for (let i = 0; i < out.length; i++) {
+    const t = i / SAMPLE_RATE;
+    let sample = 0;
+    for (let h = 1; h <= 8; h++) {
+      sample += Math.sin(2 * Math.PI * 150 * h * t) / h;
+    }
+    out[i] = 0.15 * sample;
+  }
+  return out;
+}
+
+function whiteNoise(ms: number): Float32Array {
+  const random = noiseSource(42);
+  return Float32Array.from({ length: samplesFor(ms) }, () => random() * 0.3);
+}
+
+// Single-sample clicks (keyboard, tapping) every 100 ms
+function clicks(ms: number): Float32Array {
+  const out = silence(ms);
+  for (let i = 0; i < out.length; i += samplesFor(100)) {
+    out[i] = 0.9;
+  }
+  return out;
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function processInChunks(
+  vad: VoiceActivityDetector,
+  signal: Float32Array,
+  chunkSizes: number[]
+): VADEvent[] {
+  const events: VADEvent[] = [];
+  let offset = 0;
+  for (let i = 0; offset < signal.length; i++) {
+    const size = chunkSizes[i % chunkSizes.length];
+    events.push(...vad.process(signal.subarray(offset, offset + size)));
+    offset += size;
+  }
+  return events;
+}
+
+describe("VoiceActivityDetector", () => {
+  const utterance = () => concat(silence(500), voiced(1000), silence(1000));
+
+  it("detects voiced audio with start and end times", () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+
+    expect(vad.process(utterance())).toEqual([
+      { type: "speech-start", timeMs: 500 },
+      { type: "speech-end", timeMs: 1500 },
+    ]);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it("confirms speech after the onset and ends it after the hangover", () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE, {
+      onsetMs: 80,
+      hangoverMs: 400,
+    });
+    const signal = utterance();
+
+    // Speech is confirmed by the fourth voiced 20 ms frame
+    expect(vad.process(signal.subarray(0, samplesFor(560)))).toEqual([]);
+    expect(
+      vad.process(signal.subarray(samplesFor(560), samplesFor(580)))
+    ).toEqual([{ type: "speech-start", timeMs: 500 }]);
+
+    // Silence shorter than the hangover (1500-1880 ms) keeps speech going
+    expect(
+      vad.process(signal.subarray(samplesFor(580), samplesFor(1880)))
+    ).toEqual([]);
+    expect(vad.isSpeaking()).toBe(true);
+
+    // The 20th silent frame (1880-1900 ms) ends it
+    expect(
+      vad.process(signal.subarray(samplesFor(1880), samplesFor(1900)))
+    ).toEqual([{ type: "speech-end", timeMs: 1500 }]);
+  });
+
+  it("ignores silence, white noise and clicks", () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+
+    expect(vad.process(silence(1000))).toEqual([]);
+    expect(vad.process(whiteNoise(2000))).toEqual([]);
+    expect(vad.process(clicks(2000))).toEqual([]);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it("doesn't end speech for a pause shorter than the hangover", () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+    const signal = concat(
+      silence(500),
+      voiced(500),
+      silence(200),
+      voiced(500),
+      silence(1000)
+    );
+
+    expect(vad.process(signal)).toEqual([
+      { type: "speech-start", timeMs: 500 },
+      { type: "speech-end", timeMs: 1700 },
+    ]);
+  });
+
+  it("gives the same events for any chunking", () => {
+    const signal = concat(utterance(), whiteNoise(500), utterance());
+    const expected = new VoiceActivityDetector(SAMPLE_RATE).process(signal);
+    expect(expected.length).toBe(4);
+
+    for (const chunkSizes of [[1], [128], [7, 333, 160], [319, 1]]) {
+      const vad = new VoiceActivityDetector(SAMPLE_RATE);
+      expect(processInChunks(vad, signal, chunkSizes)).toEqual(expected);
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocketBridge } from "../src/WebSocketBridge";
+import type { WebSocketConfig } from "../src/types";
+import { FakeWebSocket } from "./FakeWebSocket";
+
+describe("WebSocketBridge heartbeat", () => {
+  let bridge: WebSocketBridge;
+  let events: string[];
+
+  async function connect(
+    config: Partial<WebSocketConfig> = {}
+  ): Promise<FakeWebSocket> {
+    bridge = new WebSocketBridge({
+      url: "wss://heartbeat.test",
+      pingInterval: 1000,
+      ...config,
+    });
+    bridge.on("disconnected", (code, reason) =>
+      events.push(`disconnected ${code} ${reason}`)
+    );
+    bridge.on("reconnecting", (attempt) =>
+      events.push(`reconnecting ${attempt}`)
+    );
+    bridge.on("latency", (rttMs) => events.push(`latency ${rttMs}`));
+    bridge.on("message", (message) =>
+      events.push(`message ${JSON.stringify(message)}`)
+    );
+
+    const connected = bridge.connect();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+    return socket;
+  }
+
+  // Answer the nth ping sent on the socket, echoing its timestamp
+  function pong(socket: FakeWebSocket, index: number): void {
+    const ping = socket.sentJson()[index] as { timestamp: number };
+    socket.receive({ type: "pong", timestamp: ping.timestamp });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.reset();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("window", globalThis);
+    events = [];
+  });
+
+  afterEach(() => {
+    bridge.disconnect();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("pings on open and times the pong that echoes it", async () => {
+    const socket = await connect();
+    expect(socket.sentJson()).toEqual([
+      { type: "ping", timestamp: Date.now() },
+    ]);
+
+    vi.advanceTimersByTime(40);
+    pong(socket, 0);
+
+    expect(events).toEqual(["latency 40"]);
+    expect(bridge.getLatency()).toBe(40);
+  });
+
+  it("doesn't time pongs that don't echo a sent ping", async () => {
+    const socket = await connect();
+
+    vi.advanceTimersByTime(40);
+    socket.receive({ type: "pong", timestamp: 12345 });
+    socket.receive({ type: "pong" });
+
+    expect(events).toEqual([]);
+    expect(bridge.getLatency()).toBeNull();
+  });
+
+  it("times a late pong against its own ping", async () => {
+    const socket = await connect();
+
+    vi.advanceTimersByTime(1000); // Second ping sent before the first pong
+    vi.advanceTimersByTime(10);
+    pong(socket, 0);
+    vi.advanceTimersByTime(10);
+    pong(socket, 1);
+    pong(socket, 0); // Duplicate, already answered
+
+    expect(events).toEqual(["latency 1010", "latency 20"]);
+  });
+
+  it("keeps servers without pongs connected by default", async () => {
+    const socket = await connect();
+
+    vi.advanceTimersByTime(60000);
+
+    expect(socket.sentJson()).toHaveLength(61);
+    expect(events).toEqual([]);
+    expect(bridge.getState()).toBe("connected");
+  });
+
+  it("reconnects when the first ping gets no pong", async () => {
+    const socket = await connect({ pongTimeout: 500 });
+
+    vi.advanceTimersByTime(499);
+    expect(events).toEqual([]);
+    vi.advanceTimersByTime(1);
+
+    expect(socket.closeCode).toBe(4000);
+    expect(events).toEqual([
+      "disconnected 4000 Pong timeout",
+      "reconnecting 1",
+    ]);
+    expect(bridge.getState()).toBe("reconnecting");
+  });
+
+  it("reconnects when pongs stop arriving", async () => {
+    const socket = await connect({ pongTimeout: 500 });
+    pong(socket, 0);
+
+    vi.advanceTimersByTime(1000); // Second ping, never answered
+    vi.advanceTimersByTime(500);
+
+    expect(events).toEqual([
+      "latency 0",
+      "disconnected 4000 Pong timeout",
+      "reconnecting 1",
+    ]);
+  });
+
+  it("times the next ping after a lost pong", async () => {
+    const socket = await connect({ pongTimeout: 1500 });
+
+    vi.advanceTimersByTime(1000); // First pong lost, second ping sent
+    vi.advanceTimersByTime(50);
+    pong(socket, 1);
+    vi.advanceTimersByTime(1000);
+
+    expect(events).toEqual(["latency 50"]);
+    expect(bridge.getState()).toBe("connected");
+  });
+
+  it("uses custom ping and pong messages", async () => {
+    const socket = await connect({
+      createPing: (timestamp) => ({ event: "heartbeat", ts: timestamp }),
+      isPong: (message) =>
+        (message as { event?: string }).event === "heartbeat_ack",
+      getPongTimestamp: (message) => (message as { ts?: number }).ts,
+    });
+    const [ping] = socket.sentJson() as { event: string; ts: number }[];
+    expect(ping).toEqual({ event: "heartbeat", ts: Date.now() });
+
+    vi.advanceTimersByTime(20);
+    socket.receive({ type: "pong", timestamp: ping.ts });
+    socket.receive({ event: "heartbeat_ack", ts: ping.ts });
+
+    expect(events).toEqual([
+      `message {"type":"pong","timestamp":${ping.ts}}`,
+      "latency 20",
+    ]);
+  });
+
+  it("doesn't wait for pongs when the protocol drops pings", async () => {
+    const socket = await connect({
+      protocol: "gemini-live",
+      pongTimeout: 500,
+    });
+
+    vi.advanceTimersByTime(5000);
+
+    expect(socket.sentJson()).toHaveLength(1); // The setup message
+    expect(bridge.getState()).toBe("connected");
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  FRAME_HEADER_SIZE,
+  SequenceTracker,
+  decodeFrame,
+  encodeFrame,
+  isFrame,
+} from "../src/framing";
+import { WebSocketBridge } from "../src/WebSocketBridge";
+import type { SequenceGap } from "../src/types";
+import { FakeWebSocket } from "./FakeWebSocket";
+
+// Raw PCM16 that happens to start with the frame magic ("CD")
+function rawChunkStartingWithMagic(): ArrayBuffer {
+  const bytes = new Uint8Array(64).map((_, i) => (i * 37) & 0xff);
+  bytes[0] = 0x43;
+  bytes[1] = 0x44;
+  return bytes.buffer;
+}
+
+describe("frame encoding", () => {
+  it("round-trips a frame", () => {
+    const data = encodeFrame({
+      type: "audio",
+      sequence: 2 ** 32 + 5,
+      timestamp: 1234.6,
+      turnId: "tür-1",
+      payload: new Uint8Array([1, 2, 3]),
+    });
+
+    expect(isFrame(data)).toBe(true);
+    const frame = decodeFrame(data);
+    expect(frame).toMatchObject({
+      type: "audio",
+      sequence: 5,
+      timestamp: 1235,
+      turnId: "tür-1",
+    });
+    expect([...new Uint8Array(frame.payload)]).toEqual([1, 2, 3]);
+  });
+
+  it("rejects raw audio that starts with the magic", () => {
+    const raw = rawChunkStartingWithMagic();
+    expect(isFrame(raw)).toBe(false);
+    expect(() => decodeFrame(raw)).toThrow();
+  });
+
+  it("rejects a truncated turn ID", () => {
+    const data = new Uint8Array(
+      encodeFrame({
+        type: "message",
+        sequence: 0,
+        timestamp: 0,
+        turnId: "turn-1",
+        payload: new Uint8Array(0),
+      })
+    );
+    const truncated = data.subarray(0, FRAME_HEADER_SIZE + 2);
+
+    expect(isFrame(truncated)).toBe(false);
+    expect(() => decodeFrame(truncated)).toThrow("Truncated frame");
+  });
+});
+
+describe("SequenceTracker", () => {
+  it("reports lost and late frames across the wrap", () => {
+    const tracker = new SequenceTracker();
+
+    expect(tracker.check(0xfffffffe)).toBeNull();
+    expect(tracker.check(0xffffffff)).toBeNull();
+    expect(tracker.check(0)).toBeNull();
+    expect(tracker.check(3)).toEqual({
+      expected: 1,
+      received: 3,
+      missing: 2,
+      late: false,
+    });
+    expect(tracker.check(1)).toEqual({
+      expected: 4,
+      received: 1,
+      missing: 0,
+      late: true,
+    });
+    expect(tracker.check(4)).toBeNull();
+  });
+});
+
+describe("WebSocketBridge framing", () => {
+  let bridge: WebSocketBridge;
+  let socket: FakeWebSocket;
+  let audio: [number[], string | undefined][];
+  let gaps: SequenceGap[];
+  let errors: Error[];
+
+  function frame(sequence: number, payload: number[]): ArrayBuffer {
+    return encodeFrame({
+      type: "audio",
+      sequence,
+      timestamp: 0,
+      turnId: "turn-1",
+      payload: new Uint8Array(payload),
+    });
+  }
+
+  beforeEach(async () => {
+    FakeWebSocket.reset();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("window", globalThis);
+
+    bridge = new WebSocketBridge({
+      url: "wss://frames.test",
+      framing: true,
+      pingInterval: 0,
+    });
+    audio = [];
+    gaps = [];
+    errors = [];
+    bridge.on("audio", (data, turnId) =>
+      audio.push([[...new Uint8Array(data)], turnId])
+    );
+    bridge.on("sequence-gap", (gap) => gaps.push(gap));
+    bridge.on("error", (error) => errors.push(error));
+
+    const connected = bridge.connect();
+    socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+  });
+
+  afterEach(() => {
+    bridge.disconnect();
+    vi.unstubAllGlobals();
+  });
+
+  it("sends audio as numbered frames", () => {
+    bridge.sendAudio(new Uint8Array([1, 2]).buffer);
+    bridge.sendAudio(new Uint8Array([3]).buffer);
+
+    const frames = socket.sent.map((data) => decodeFrame(data as ArrayBuffer));
+    expect(frames.map((sent) => [sent.type, sent.sequence])).toEqual([
+      ["audio", 0],
+      ["audio", 1],
+    ]);
+  });
+
+  it("plays raw audio that starts with the magic", () => {
+    const raw = rawChunkStartingWithMagic();
+    socket.receive(raw);
+
+    expect(errors).toEqual([]);
+    expect(audio).toEqual([[[...new Uint8Array(raw)], undefined]]);
+    expect(gaps).toEqual([]);
+  });
+
+  it("emits framed audio with its turn ID and drops late frames", () => {
+    socket.receive(frame(0, [1]));
+    socket.receive(frame(2, [3]));
+    socket.receive(frame(1, [2]));
+
+    expect(audio).toEqual([
+      [[1], "turn-1"],
+      [[3], "turn-1"],
+    ]);
+    expect(gaps).toEqual([
+      { expected: 1, received: 2, missing: 1, late: false },
+      { expected: 3, received: 1, missing: 0, late: true },
+    ]);
+  });
+});